@@ -0,0 +1,228 @@
+import * as yaml from 'js-yaml';
+
+import { stripServerFields } from './diff';
+import { host as defaultHost, Host } from './host';
+
+export type OutputFormat = 'yaml' | 'json';
+
+const OUTPUT_FORMAT_SETTING = 'vs-kubernetes.outputFormat';
+
+// Annotations which controllers and kubectl add to objects, rather than users.
+const GENERATED_ANNOTATION_PREFIXES = [
+    'kubectl.kubernetes.io/',
+    'deployment.kubernetes.io/',
+    'pv.kubernetes.io/',
+    'volume.beta.kubernetes.io/storage-provisioner',
+    'control-plane.alpha.kubernetes.io/',
+    'autoscaling.alpha.kubernetes.io/',
+];
+
+// Labels which controllers add to the objects they create.
+const GENERATED_LABELS = [
+    'pod-template-hash',
+    'controller-revision-hash',
+    'controller-uid',
+    'job-name',
+];
+
+/**
+ * The format in which to load objects, from settings.
+ */
+export function outputFormat(host : Host = defaultHost) : OutputFormat {
+    return host.getConfiguration('vs-kubernetes')[OUTPUT_FORMAT_SETTING] === 'json' ? 'json' : 'yaml';
+}
+
+/**
+ * Returns a copy of a live object which could be committed as a manifest: without status,
+ * without metadata the server assigns, and without fields which the server filled in with
+ * their default values.
+ */
+export function cleanManifest(obj : any) : any {
+    const clean = stripServerFields(obj);
+    if (clean.metadata) {
+        cleanMetadata(clean.metadata);
+    }
+    const spec = clean.spec;
+    if (!spec) {
+        return clean;
+    }
+    switch (clean.kind) {
+        case 'Pod':
+            cleanPodSpec(spec);
+            break;
+        case 'Deployment':
+            removeDefaults(spec, { progressDeadlineSeconds: 600, revisionHistoryLimit: 10 });
+            removeDefaults(spec, { strategy: { type: 'RollingUpdate', rollingUpdate: { maxSurge: '25%', maxUnavailable: '25%' } } });
+            cleanPodTemplate(spec.template);
+            break;
+        case 'StatefulSet':
+            removeDefaults(spec, { podManagementPolicy: 'OrderedReady', revisionHistoryLimit: 10 });
+            removeDefaults(spec, { updateStrategy: { type: 'RollingUpdate', rollingUpdate: { partition: 0 } } });
+            cleanPodTemplate(spec.template);
+            break;
+        case 'DaemonSet':
+            removeDefaults(spec, { revisionHistoryLimit: 10 });
+            removeDefaults(spec, { updateStrategy: { type: 'RollingUpdate', rollingUpdate: { maxUnavailable: 1 } } });
+            cleanPodTemplate(spec.template);
+            break;
+        case 'ReplicaSet':
+        case 'ReplicationController':
+            cleanPodTemplate(spec.template);
+            break;
+        case 'Job':
+            cleanJobSpec(spec);
+            break;
+        case 'CronJob':
+            removeDefaults(spec, { concurrencyPolicy: 'Allow', failedJobsHistoryLimit: 1, successfulJobsHistoryLimit: 3, suspend: false });
+            if (spec.jobTemplate) {
+                cleanMetadata(spec.jobTemplate.metadata);
+                cleanJobSpec(spec.jobTemplate.spec);
+            }
+            break;
+        case 'Service':
+            cleanServiceSpec(spec);
+            break;
+        case 'PersistentVolumeClaim':
+            delete spec.volumeName;
+            removeDefaults(spec, { volumeMode: 'Filesystem' });
+            break;
+    }
+    return clean;
+}
+
+/**
+ * Formats objects for an editor.  Several objects become separate YAML documents, or a List
+ * in JSON.
+ */
+export function formatManifest(objects : any[], format : OutputFormat) : string {
+    if (format === 'json') {
+        const content = objects.length === 1 ? objects[0] : { apiVersion: 'v1', kind: 'List', items: objects };
+        return JSON.stringify(content, null, 2) + '\n';
+    }
+    return objects.map((o) => yaml.safeDump(o)).join('---\n');
+}
+
+function cleanMetadata(metadata : any) : void {
+    if (!metadata) {
+        return;
+    }
+    delete metadata.managedFields;
+    delete metadata.ownerReferences;
+    if (metadata.creationTimestamp === null) {
+        delete metadata.creationTimestamp;
+    }
+    if (metadata.annotations) {
+        for (const key of Object.keys(metadata.annotations)) {
+            if (GENERATED_ANNOTATION_PREFIXES.some((p) => key.startsWith(p))) {
+                delete metadata.annotations[key];
+            }
+        }
+    }
+    if (metadata.labels) {
+        GENERATED_LABELS.forEach((l) => delete metadata.labels[l]);
+    }
+    removeEmpty(metadata, ['annotations', 'labels']);
+}
+
+function cleanPodTemplate(template : any) : void {
+    if (!template) {
+        return;
+    }
+    cleanMetadata(template.metadata);
+    removeEmpty(template, ['metadata']);
+    if (template.spec) {
+        cleanPodSpec(template.spec);
+    }
+}
+
+function cleanPodSpec(spec : any) : void {
+    removeDefaults(spec, {
+        dnsPolicy: 'ClusterFirst',
+        restartPolicy: 'Always',
+        schedulerName: 'default-scheduler',
+        terminationGracePeriodSeconds: 30
+    });
+    removeEmpty(spec, ['securityContext']);
+    const containers : any[] = (spec.containers || []).concat(spec.initContainers || []);
+    containers.forEach(cleanContainer);
+    for (const volume of (spec.volumes || [])) {
+        for (const source of [ volume.configMap, volume.secret ]) {
+            if (source) {
+                removeDefaults(source, { defaultMode: 420 });
+            }
+        }
+    }
+}
+
+function cleanContainer(container : any) : void {
+    removeDefaults(container, {
+        terminationMessagePath: '/dev/termination-log',
+        terminationMessagePolicy: 'File',
+        imagePullPolicy: defaultImagePullPolicy(container.image)
+    });
+    removeEmpty(container, ['resources']);
+    for (const port of (container.ports || [])) {
+        removeDefaults(port, { protocol: 'TCP' });
+    }
+    for (const probe of [ container.livenessProbe, container.readinessProbe ]) {
+        if (probe) {
+            removeDefaults(probe, { timeoutSeconds: 1, periodSeconds: 10, successThreshold: 1, failureThreshold: 3 });
+        }
+    }
+}
+
+function cleanJobSpec(spec : any) : void {
+    if (!spec) {
+        return;
+    }
+    removeDefaults(spec, { backoffLimit: 6, completions: 1, parallelism: 1 });
+    // The job controller generates the selector, which ties the job to its uid.
+    delete spec.selector;
+    cleanPodTemplate(spec.template);
+}
+
+function cleanServiceSpec(spec : any) : void {
+    if (spec.clusterIP !== 'None') {
+        delete spec.clusterIP;
+        delete spec.clusterIPs;
+    }
+    removeDefaults(spec, { sessionAffinity: 'None', type: 'ClusterIP' });
+    for (const port of (spec.ports || [])) {
+        removeDefaults(port, { protocol: 'TCP', targetPort: port.port });
+    }
+}
+
+function defaultImagePullPolicy(image : string | undefined) : string {
+    if (!image) {
+        return 'IfNotPresent';
+    }
+    const lastSegment = image.substring(image.lastIndexOf('/') + 1);
+    const tagged = lastSegment.indexOf(':') >= 0 && !lastSegment.endsWith(':latest');
+    return (tagged || image.indexOf('@') >= 0) ? 'IfNotPresent' : 'Always';
+}
+
+// Removes each field whose value is the same as the default given for it.
+function removeDefaults(obj : any, defaults : { [field : string] : any }) : void {
+    for (const field of Object.keys(defaults)) {
+        if (field in obj && sameValue(obj[field], defaults[field])) {
+            delete obj[field];
+        }
+    }
+}
+
+function sameValue(a : any, b : any) : boolean {
+    if (a && b && typeof a === 'object' && typeof b === 'object') {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length && keys.every((k) => sameValue(a[k], b[k]));
+    }
+    return a === b;
+}
+
+function removeEmpty(obj : any, fields : string[]) : void {
+    for (const field of fields) {
+        const value = obj[field];
+        if (value && typeof value === 'object' && Object.keys(value).length === 0) {
+            delete obj[field];
+        }
+    }
+}
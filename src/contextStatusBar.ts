@@ -0,0 +1,85 @@
+import * as sysfs from 'fs';
+import * as vscode from 'vscode';
+
+import { host as defaultHost, Host } from './host';
+import * as kubeconfig from './kubeconfig';
+import * as kubectlUtils from './kubectlUtils';
+import { isProtectedContext, protectedContextPatterns } from './protectedContexts';
+
+// How often to check the kubeconfig files for changes.  fs.watch loses track of files which
+// editors and kubectl replace rather than rewrite, so the files are polled instead.
+const KUBECONFIG_POLL_INTERVAL_MS = 2000;
+
+// Shows the current context and namespace in the status bar, highlighted if the context is
+// protected.  Clicking it lets the user switch either one.
+export class ContextStatusBar implements vscode.Disposable {
+    private readonly item : vscode.StatusBarItem;
+    private readonly subscription : vscode.Disposable;
+    private watchedPaths : string[] = [];
+    private readonly onFileChanged = (curr : sysfs.Stats, prev : sysfs.Stats) => {
+        if (curr.mtime.getTime() !== prev.mtime.getTime()) {
+            this.refresh();
+        }
+    }
+
+    constructor(switchCommand : string, private readonly host : Host = defaultHost) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+        this.item.command = switchCommand;
+        this.subscription = vscode.workspace.onDidChangeConfiguration((e) => {
+            if (e.affectsConfiguration('vs-kubernetes')) {
+                this.watchKubeconfig();
+                this.refresh();
+            }
+        });
+        this.watchKubeconfig();
+        this.refresh();
+    }
+
+    dispose() : void {
+        this.unwatchKubeconfig();
+        this.subscription.dispose();
+        this.item.dispose();
+    }
+
+    async refresh() : Promise<void> {
+        let config : kubeconfig.KubeConfig;
+        try {
+            config = await kubeconfig.readKubectlConfig();
+        } catch (ex) {
+            this.item.hide();  // the file may be part way through being written
+            return;
+        }
+        const active = kubectlUtils.getClusters(config).find((c) => c.active);
+        if (!active) {
+            this.item.hide();
+            return;
+        }
+        const namespace = kubectlUtils.contextNamespace(config);
+        const text = `${active.context}: ${namespace}`;
+        if (isProtectedContext(active.context, protectedContextPatterns(this.host))) {
+            this.item.text = `$(shield) ${text}`;
+            this.item.tooltip = `Kubernetes context ${active.context} (protected), namespace ${namespace}. Click to switch.`;
+            this.item.color = new vscode.ThemeColor('errorForeground');
+        } else {
+            this.item.text = `$(server) ${text}`;
+            this.item.tooltip = `Kubernetes context ${active.context}, namespace ${namespace}. Click to switch.`;
+            this.item.color = undefined;
+        }
+        this.item.show();
+    }
+
+    private watchKubeconfig() : void {
+        this.unwatchKubeconfig();
+        this.watchedPaths = kubeconfig.kubeconfigPaths(undefined, this.host);
+        for (const path of this.watchedPaths) {
+            sysfs.watchFile(path, { persistent: false, interval: KUBECONFIG_POLL_INTERVAL_MS }, this.onFileChanged);
+        }
+    }
+
+    private unwatchKubeconfig() : void {
+        for (const path of this.watchedPaths) {
+            sysfs.unwatchFile(path, this.onFileChanged);
+        }
+        this.watchedPaths = [];
+    }
+}
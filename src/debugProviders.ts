@@ -0,0 +1,266 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+import { FS } from './fs';
+import { Dockerfile } from './docker';
+import { PortMapping } from './portForward';
+
+/**
+ * What a debug provider needs to know to build a debug configuration for a
+ * container running in the cluster.
+ */
+export interface DebugTarget {
+    readonly podName : string;
+    readonly namespace? : string;
+    readonly containerName? : string;
+    readonly localRoot : string;
+    readonly remoteRoot : string;
+    readonly kubectlPath : string;
+    /** The KUBECONFIG to run kubectl with, if not the one kubectl would use anyway. */
+    readonly kubeconfig? : string;
+    /** The port the debug agent listens on, if not the runtime's default. */
+    readonly debugPort? : number;
+}
+
+/**
+ * A container that is already running in the cluster. The command line includes
+ * the container's environment, since debug agents are often enabled through
+ * variables such as NODE_OPTIONS or JAVA_TOOL_OPTIONS.
+ */
+export interface RunningContainer {
+    readonly image : string;
+    readonly commandLine : string;
+}
+
+/**
+ * Describes how to debug applications written for one runtime. Providers are
+ * held in a registry; to support a new runtime, call registerDebugProvider.
+ */
+export interface DebugProvider {
+    readonly runtime : string;
+    readonly displayName : string;
+    /** Whether the app in the workspace appears to use this runtime. */
+    isApplicable(fs : FS, workspaceRoot : string, dockerfile : Dockerfile | undefined) : boolean;
+    /** Whether a running container appears to use this runtime, from its image and command line. */
+    isRuntimeOf(container : RunningContainer) : boolean;
+    /** The port the debug agent listens on, if the command line shows that one is enabled. */
+    debugPortFromCommand(commandLine : string) : number | undefined;
+    /** Suggests a container command that starts the app with a debug agent listening. */
+    debugCommand(dockerfile : Dockerfile | undefined) : string;
+    /** The container ports the debug agent listens on, which need forwarding. */
+    debugPorts() : PortMapping[];
+    debugConfiguration(target : DebugTarget) : vscode.DebugConfiguration;
+}
+
+const providers : DebugProvider[] = [];
+
+export function registerDebugProvider(provider : DebugProvider) : void {
+    providers.push(provider);
+}
+
+export function allDebugProviders() : DebugProvider[] {
+    return providers.slice();
+}
+
+export function detectDebugProviders(fs : FS, workspaceRoot : string, dockerfile : Dockerfile | undefined) : DebugProvider[] {
+    return providers.filter((p) => p.isApplicable(fs, workspaceRoot, dockerfile));
+}
+
+export function detectContainerDebugProviders(container : RunningContainer) : DebugProvider[] {
+    return providers.filter((p) => p.isRuntimeOf(container));
+}
+
+/**
+ * Describes a container from its spec in a pod, for matching against debug providers.
+ */
+export function runningContainer(containerSpec : any) : RunningContainer {
+    const env : any[] = containerSpec.env || [];
+    const commandLine = (containerSpec.command || []).concat(containerSpec.args || [])
+                            .concat(env.filter((e) => e.value).map((e) => `${e.name}=${e.value}`));
+    return { image: containerSpec.image || '', commandLine: commandLine.join(' ') };
+}
+
+// The image name without registry, repository or tag, e.g. 'node' for 'docker.io/library/node:8'.
+function imageName(image : string) : string {
+    const lastComponent = image.substring(image.lastIndexOf('/') + 1);
+    return lastComponent.split(/[:@]/)[0];
+}
+
+function baseImageMatches(dockerfile : Dockerfile | undefined, pattern : RegExp) : boolean {
+    return !!(dockerfile && dockerfile.baseImage && pattern.test(imageName(dockerfile.baseImage)));
+}
+
+function containerMatches(container : RunningContainer, imagePattern : RegExp, executables : string[]) : boolean {
+    if (imagePattern.test(imageName(container.image))) {
+        return true;
+    }
+    const words = container.commandLine.split(/\s+/).map((w) => path.basename(w));
+    return words.some((w) => executables.indexOf(w) >= 0);
+}
+
+// Gets the port from the first match of the pattern, or the default port if the pattern
+// matches without capturing one, e.g. '--inspect' on its own.
+function portFromCommand(commandLine : string, pattern : RegExp, defaultPort : number) : number | undefined {
+    const match = pattern.exec(commandLine);
+    if (!match) {
+        return undefined;
+    }
+    return match[1] ? Number.parseInt(match[1], 10) : defaultPort;
+}
+
+function anyFileExists(fs : FS, workspaceRoot : string, fileNames : string[]) : boolean {
+    return fileNames.some((f) => fs.existsSync(path.join(workspaceRoot, f)));
+}
+
+function anyFileWithExtension(fs : FS, workspaceRoot : string, extension : string) : boolean {
+    try {
+        return fs.dirSync(workspaceRoot).some((f) => f.endsWith(extension));
+    } catch (ex) {
+        return false;
+    }
+}
+
+// Takes the program arguments from the Dockerfile command if it runs the given
+// executable, e.g. ['server.js'] from CMD ["node", "server.js"].
+function programArgs(dockerfile : Dockerfile | undefined, executables : string[], fallback : string) : string {
+    const command = dockerfile ? dockerfile.command : [];
+    if (command.length > 1 && executables.indexOf(path.basename(command[0])) >= 0) {
+        return command.slice(1).join(' ');
+    }
+    return fallback;
+}
+
+const NODE_DEBUG_PORT = 9229;
+const NODE_IMAGE = /^node$/;
+
+export const nodeDebugProvider : DebugProvider = {
+    runtime: 'node',
+    displayName: 'Node.js',
+    isApplicable: (fs, root, dockerfile) => baseImageMatches(dockerfile, NODE_IMAGE) || anyFileExists(fs, root, ['package.json']),
+    isRuntimeOf: (container) => containerMatches(container, NODE_IMAGE, ['node', 'nodejs', 'npm', 'yarn']),
+    debugPortFromCommand: (commandLine) => portFromCommand(commandLine, /--inspect(?:-brk)?(?:=(?:\S*:)?(\d+))?/, NODE_DEBUG_PORT),
+    debugCommand: (dockerfile) => `node --inspect=0.0.0.0:${NODE_DEBUG_PORT} ${programArgs(dockerfile, ['node', 'nodejs'], 'server.js')}`,
+    debugPorts: () => [ { localPort: NODE_DEBUG_PORT, targetPort: NODE_DEBUG_PORT } ],
+    debugConfiguration: (target) => ({
+        type: 'node',
+        request: 'attach',
+        name: `Attach to ${target.podName}`,
+        protocol: 'inspector',
+        address: 'localhost',
+        port: target.debugPort || NODE_DEBUG_PORT,
+        localRoot: target.localRoot,
+        remoteRoot: target.remoteRoot
+    })
+};
+
+const PYTHON_DEBUG_PORT = 5678;
+const PYTHON_IMAGE = /^python$/;
+
+export const pythonDebugProvider : DebugProvider = {
+    runtime: 'python',
+    displayName: 'Python (ptvsd)',
+    isApplicable: (fs, root, dockerfile) => baseImageMatches(dockerfile, PYTHON_IMAGE) || anyFileExists(fs, root, ['requirements.txt', 'setup.py', 'Pipfile']),
+    isRuntimeOf: (container) => containerMatches(container, PYTHON_IMAGE, ['python', 'python2', 'python3', 'gunicorn', 'flask']),
+    debugPortFromCommand: (commandLine) => portFromCommand(commandLine, /ptvsd(?:.*--port[=\s](\d+))?/, PYTHON_DEBUG_PORT),
+    debugCommand: (dockerfile) => `python -m ptvsd --host 0.0.0.0 --port ${PYTHON_DEBUG_PORT} --wait ${programArgs(dockerfile, ['python', 'python3'], 'app.py')}`,
+    debugPorts: () => [ { localPort: PYTHON_DEBUG_PORT, targetPort: PYTHON_DEBUG_PORT } ],
+    debugConfiguration: (target) => ({
+        type: 'python',
+        request: 'attach',
+        name: `Attach to ${target.podName}`,
+        host: 'localhost',
+        port: target.debugPort || PYTHON_DEBUG_PORT,
+        pathMappings: [ { localRoot: target.localRoot, remoteRoot: target.remoteRoot } ]
+    })
+};
+
+const JAVA_DEBUG_PORT = 5005;
+const JAVA_IMAGE = /^(openjdk|java|maven|gradle|eclipse-temurin|jre|jdk)(-|$)/;
+
+export const javaDebugProvider : DebugProvider = {
+    runtime: 'java',
+    displayName: 'Java (JDWP)',
+    isApplicable: (fs, root, dockerfile) => baseImageMatches(dockerfile, JAVA_IMAGE) || anyFileExists(fs, root, ['pom.xml', 'build.gradle', 'build.gradle.kts']),
+    isRuntimeOf: (container) => containerMatches(container, JAVA_IMAGE, ['java', 'mvn', 'gradle']),
+    debugPortFromCommand: (commandLine) => portFromCommand(commandLine, /(?:-agentlib:jdwp=|-Xrunjdwp:)\S*address=(?:[^,\s]*:)?(\d+)/, JAVA_DEBUG_PORT),
+    debugCommand: (dockerfile) => `java -agentlib:jdwp=transport=dt_socket,server=y,suspend=n,address=*:${JAVA_DEBUG_PORT} ${programArgs(dockerfile, ['java'], '-jar app.jar')}`,
+    debugPorts: () => [ { localPort: JAVA_DEBUG_PORT, targetPort: JAVA_DEBUG_PORT } ],
+    debugConfiguration: (target) => ({
+        type: 'java',
+        request: 'attach',
+        name: `Attach to ${target.podName}`,
+        hostName: 'localhost',
+        port: target.debugPort || JAVA_DEBUG_PORT
+    })
+};
+
+// .NET Core debugging doesn't use a port: VS Code runs vsdbg inside the container
+// over kubectl exec, so the image must have vsdbg installed at /vsdbg.
+const DOTNET_IMAGE = /(dotnet|aspnet)/;
+
+export const dotnetDebugProvider : DebugProvider = {
+    runtime: 'dotnet',
+    displayName: '.NET Core (vsdbg)',
+    isApplicable: (fs, root, dockerfile) => baseImageMatches(dockerfile, DOTNET_IMAGE) || anyFileWithExtension(fs, root, '.csproj') || anyFileWithExtension(fs, root, '.fsproj'),
+    isRuntimeOf: (container) => containerMatches(container, DOTNET_IMAGE, ['dotnet']),
+    debugPortFromCommand: (commandLine) => undefined,
+    debugCommand: (dockerfile) => `dotnet ${programArgs(dockerfile, ['dotnet'], 'app.dll')}`,
+    debugPorts: () => [],
+    debugConfiguration: (target) => ({
+        type: 'coreclr',
+        request: 'attach',
+        name: `Attach to ${target.podName}`,
+        processId: '1',
+        sourceFileMap: { [target.remoteRoot]: target.localRoot },
+        pipeTransport: {
+            pipeProgram: target.kubectlPath,
+            pipeArgs: ['exec', '-i', target.podName]
+                .concat(target.namespace ? ['-n', target.namespace] : [])
+                .concat(target.containerName ? ['-c', target.containerName] : [])
+                .concat(['--']),
+            pipeCwd: '${workspaceFolder}',
+            pipeEnv: target.kubeconfig ? { KUBECONFIG: target.kubeconfig } : undefined,
+            debuggerPath: '/vsdbg/vsdbg',
+            quoteArgs: false
+        }
+    })
+};
+
+// The program for dlv exec to run, from the Dockerfile command.  Its arguments go after --
+// so that Delve doesn't take them for its own flags.
+function delveProgram(dockerfile : Dockerfile | undefined) : string {
+    const command = dockerfile ? dockerfile.command : [];
+    if (command.length === 0) {
+        return './app';
+    }
+    return command.length > 1 ? `${command[0]} -- ${command.slice(1).join(' ')}` : command[0];
+}
+
+const GO_DEBUG_PORT = 2345;
+const GO_IMAGE = /^golang$/;
+
+export const goDebugProvider : DebugProvider = {
+    runtime: 'go',
+    displayName: 'Go (Delve)',
+    isApplicable: (fs, root, dockerfile) => baseImageMatches(dockerfile, GO_IMAGE) || anyFileExists(fs, root, ['go.mod', 'main.go', 'Gopkg.toml']),
+    isRuntimeOf: (container) => containerMatches(container, GO_IMAGE, ['dlv']),
+    debugPortFromCommand: (commandLine) => portFromCommand(commandLine, /\bdlv\b(?:.*--listen=\S*:(\d+))?/, GO_DEBUG_PORT),
+    debugCommand: (dockerfile) => `dlv --listen=:${GO_DEBUG_PORT} --headless=true --api-version=2 exec ${delveProgram(dockerfile)}`,
+    debugPorts: () => [ { localPort: GO_DEBUG_PORT, targetPort: GO_DEBUG_PORT } ],
+    debugConfiguration: (target) => ({
+        type: 'go',
+        request: 'attach',
+        name: `Attach to ${target.podName}`,
+        mode: 'remote',
+        host: '127.0.0.1',
+        port: target.debugPort || GO_DEBUG_PORT,
+        remotePath: target.remoteRoot,
+        cwd: target.localRoot
+    })
+};
+
+registerDebugProvider(nodeDebugProvider);
+registerDebugProvider(pythonDebugProvider);
+registerDebugProvider(javaDebugProvider);
+registerDebugProvider(dotnetDebugProvider);
+registerDebugProvider(goDebugProvider);
@@ -0,0 +1,74 @@
+import * as yaml from 'js-yaml';
+
+export type DiffFormat = 'json' | 'yaml';
+
+// Metadata which the server sets and maintains, and which therefore always shows up as
+// a difference between a local manifest and the live object.
+const SERVER_MANAGED_METADATA = [
+    'creationTimestamp',
+    'generation',
+    'resourceVersion',
+    'selfLink',
+    'uid',
+];
+
+const SERVER_MANAGED_ANNOTATIONS = [
+    'kubectl.kubernetes.io/last-applied-configuration',
+    'deployment.kubernetes.io/revision',
+];
+
+export function diffFormat(fileName : string | undefined, languageId : string | undefined) : DiffFormat {
+    if (languageId === 'json' || (fileName && fileName.toLowerCase().endsWith('.json'))) {
+        return 'json';
+    }
+    return 'yaml';
+}
+
+/**
+ * Returns a copy of an object without status or server-managed metadata.
+ */
+export function stripServerFields(obj : any) : any {
+    const stripped = JSON.parse(JSON.stringify(obj));
+    delete stripped.status;
+    const metadata = stripped.metadata;
+    if (metadata) {
+        for (const field of SERVER_MANAGED_METADATA) {
+            delete metadata[field];
+        }
+        if (metadata.annotations) {
+            for (const annotation of SERVER_MANAGED_ANNOTATIONS) {
+                delete metadata.annotations[annotation];
+            }
+            if (Object.keys(metadata.annotations).length === 0) {
+                delete metadata.annotations;
+            }
+        }
+    }
+    return stripped;
+}
+
+/**
+ * Formats an object for diffing.  Keys are sorted so that differences in
+ * field order don't show up in the diff.
+ */
+export function normalise(obj : any, format : DiffFormat) : string {
+    const sorted = sortKeys(stripServerFields(obj));
+    if (format === 'json') {
+        return JSON.stringify(sorted, null, 2) + '\n';
+    }
+    return yaml.safeDump(sorted);
+}
+
+function sortKeys(value : any) : any {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+    if (value && typeof value === 'object') {
+        const sorted = {};
+        for (const key of Object.keys(value).sort()) {
+            sorted[key] = sortKeys(value[key]);
+        }
+        return sorted;
+    }
+    return value;
+}
@@ -1,3 +1,5 @@
+import * as dockerfileParse from 'dockerfile-parse';
+
 export function sanitiseTag(name : string) {
     // Name components may contain lowercase letters, digits and separators.
     // A separator is defined as a period, one or two underscores, or one or
@@ -5,4 +7,39 @@ export function sanitiseTag(name : string) {
     // https://docs.docker.com/engine/reference/commandline/tag/#extended-description
 
     return name.toLowerCase().replace(/[^a-z0-9._-]/g, '-');
-}
\ No newline at end of file
+}
+
+export interface Dockerfile {
+    readonly baseImage? : string;
+    readonly workdir? : string;
+    readonly command : string[];
+    readonly exposedPorts : number[];
+}
+
+export function parseDockerfile(text : string) : Dockerfile {
+    const obj = dockerfileParse(text);
+    const workdirs : string[] = obj.workdir || [];
+    const command = parseCommand(obj.entrypoint).concat(parseCommand(obj.cmd));
+    return {
+        baseImage: obj.from ? obj.from.trim() : undefined,
+        workdir: workdirs.length > 0 ? workdirs[workdirs.length - 1].trim() : undefined,
+        command: command,
+        exposedPorts: (obj.expose || []).map((p) => Number.parseInt(p, 10)).filter((p) => !isNaN(p))
+    };
+}
+
+// CMD and ENTRYPOINT may be in exec form (a JSON array) or shell form.
+function parseCommand(text : string | undefined) : string[] {
+    if (!text) {
+        return [];
+    }
+    const trimmed = text.trim();
+    if (trimmed.startsWith('[')) {
+        try {
+            return JSON.parse(trimmed);
+        } catch (ex) {
+            // fall through and treat as shell form
+        }
+    }
+    return trimmed.split(/\s+/);
+}
@@ -1,42 +1,34 @@
 'use strict';
 
-import * as k8s from 'k8s';
 import * as pluralize from 'pluralize';
-import * as kubeconfig from './kubeconfig';
+import { KubernetesSchema } from './schema';
 
-export function readSwagger() : Promise<any> {
-    return kubeconfig.readKubectlConfig().then((kc) => readSwaggerCore(kc));
-}
-
-function readSwaggerCore(kc : kubeconfig.KubeConfig) : Promise<any> {
-    return new Promise((resolve, reject) => {
-        const kapi = k8s.api(apiCredentials(kc));
-        kapi.get('swagger.json', (err, data) => {
-            if (err) {
-                reject(err);
-            } else {
-                resolve(data);
-            }
-        });
-    });
-}
-
-export function readExplanation(swagger : any, fieldsPath : string) {
+export function readExplanation(schema : KubernetesSchema, apiVersion : string | undefined, fieldsPath : string) {
     const fields = fieldsPath.split('.');
     const kindName = fields.shift();
-    const kindDef = findKindModel(swagger, kindName);
-    const text = chaseFieldPath(swagger, kindDef, kindName, fields);
+    const kindDef = findKindModel(schema, apiVersion, kindName);
+    if (!kindDef) {
+        return explainError(kindName, 'kind is not in the schema');
+    }
+    const text = chaseFieldPath(schema, kindDef, kindName, fields);
     return text;
 }
 
-function findKindModel(swagger : any, kindName : string) : TypeModel {
-    const v1def = findProperty(swagger.definitions, 'v1.' + kindName);
-    const v1beta1def = findProperty(swagger.definitions, 'v1beta1.' + kindName);
-    const kindDef = v1def || v1beta1def;
-    return kindDef;
+function findKindModel(schema : KubernetesSchema, apiVersion : string | undefined, kindName : string) : TypeModel | undefined {
+    const n = kindName.toLowerCase();
+    const kinds = schema.kinds().filter((k) => k.kind.toLowerCase() === n);
+    const kind = kinds.find((k) => k.apiVersion === apiVersion)
+        || kinds.find((k) => versionOf(k.apiVersion) === 'v1')
+        || kinds.find((k) => versionOf(k.apiVersion) === 'v1beta1')
+        || kinds[0];
+    return kind ? kind.definition : undefined;
 }
 
-function chaseFieldPath(swagger : any, currentProperty : TypeModel, currentPropertyName : string, fields : string[]) {
+function versionOf(apiVersion : string) : string {
+    return apiVersion.split('/').pop();
+}
+
+function chaseFieldPath(schema : KubernetesSchema, currentProperty : TypeModel, currentPropertyName : string, fields : string[]) {
 
     // What are our scenarios?
     // 1. (ex: Deployment.[metadata]): We are at the end of the chain and
@@ -114,9 +106,7 @@ function chaseFieldPath(swagger : any, currentProperty : TypeModel, currentPrope
     const currentPropertyTypeRef = currentProperty.$ref || (currentProperty.items ? currentProperty.items.$ref : undefined);
 
     if (currentPropertyTypeRef) {
-        let typeDefnPath : string[] = currentPropertyTypeRef.split('/');
-        typeDefnPath.shift();
-        const currentPropertyTypeInfo = findTypeDefinition(swagger, typeDefnPath);
+        const currentPropertyTypeInfo : TypeModel | undefined = schema.findDefinition(currentPropertyTypeRef);
         if (currentPropertyTypeInfo) {
             const typeRefProperties = currentPropertyTypeInfo.properties;
             if (typeRefProperties) {
@@ -126,7 +116,7 @@ function chaseFieldPath(swagger : any, currentProperty : TypeModel, currentPrope
                     const nextField = fields.shift();
                     const nextProperty = findProperty(typeRefProperties, nextField);
                     if (nextProperty) {
-                        return chaseFieldPath(swagger, nextProperty, nextField, fields);
+                        return chaseFieldPath(schema, nextProperty, nextField, fields);
                     } else {
                         return explainError(nextField, 'field does not exist');
                     }
@@ -147,7 +137,7 @@ function chaseFieldPath(swagger : any, currentProperty : TypeModel, currentPrope
                 const nextField = fields.shift();
                 const nextProperty = findProperty(properties, nextField);
                 if (nextProperty) {
-                    return chaseFieldPath(swagger, nextProperty, nextField, fields);
+                    return chaseFieldPath(schema, nextProperty, nextField, fields);
                 } else {
                     return explainError(nextField, 'field does not exist');
                 }
@@ -186,18 +176,6 @@ function typeDesc(p : Typed) {
     return baseType;
 }
 
-function apiCredentials(kc : kubeconfig.KubeConfig) {
-    return {
-        endpoint: kc.endpoint,
-        auth: {
-            clientCert: kc.clientCertificateData,
-            clientKey: kc.clientKeyData,
-            caCert: kc.certificateAuthorityData
-        },
-        version: '/'
-    };
-}
-
 function singularizeVersionedName(name : string) {
     const bits = name.split('.');
     let lastBit = bits.pop();
@@ -221,17 +199,6 @@ function findProperty(obj : any, name : string) {
     }
 }
 
-function findTypeDefinition(swagger : any, typeDefnPath : string[]) : TypeModel | undefined {
-    let m = swagger;
-    for (const p of typeDefnPath) {
-        m = findProperty(m, p);
-        if (!m) {
-            return undefined;
-        }
-    }
-    return m;
-}
-
 function underlyingFieldType(fieldDefn) {
     if (fieldDefn.type == 'array') {
         return fieldDefn['items']['$ref'];
@@ -243,7 +210,7 @@ function underlyingFieldType(fieldDefn) {
 interface Typed {
     readonly type? : string;
     readonly items? : Typed;
-    readonly $ref : string;
+    readonly $ref? : string;
 }
 
 // TODO: this isn't really a type model - it can be a type model (description + properties) *or* a property model (description + [type|$ref])
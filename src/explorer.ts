@@ -4,19 +4,25 @@ import * as vscode from 'vscode';
 import * as shell from './shell';
 import { Kubectl } from './kubectl';
 import * as kubectlUtils from './kubectlUtils';
+import * as kubeconfig from './kubeconfig';
 import { Host } from './host';
 import * as kuberesources from './kuberesources';
+import { EXPLORER_WATCH_SETTING, ResourceWatcher } from './explorerWatch';
 
-export function create(kubectl : Kubectl, host : Host) : KubernetesExplorer {
-    return new KubernetesExplorer(kubectl, host);
+export function create(kubectl : Kubectl, host : Host, readKubeconfig : () => Promise<kubeconfig.KubeConfig> = () => kubeconfig.readKubectlConfig()) : KubernetesExplorer {
+    return new KubernetesExplorer(kubectl, host, readKubeconfig);
 }
 
-export function createKubernetesResourceFolder(kind: kuberesources.ResourceKind) : KubernetesObject {
-    return new KubernetesResourceFolder(kind);
+export function createKubernetesResourceFolder(kind: kuberesources.ResourceKind, namespace?: string) : KubernetesObject {
+    return new KubernetesResourceFolder(kind, namespace);
 }
 
-export function createKubernetesResource(kind: kuberesources.ResourceKind, id: string, metadata?: any) : KubernetesObject {
-    return new KubernetesResource(kind, id, metadata);
+export function createKubernetesResource(kind: kuberesources.ResourceKind, id: string, metadata?: any, namespace?: string) : KubernetesObject {
+    return resourceNode(kind, id, metadata, namespace);
+}
+
+export function createKubernetesNamespace(id: string, metadata?: any) : KubernetesObject {
+    return new KubernetesNamespaceResource(kuberesources.allKinds.namespace, id, metadata);
 }
 
 export interface KubernetesObject {
@@ -29,13 +35,33 @@ export interface KubernetesObject {
 export interface ResourceNode {
     readonly id : string;
     readonly resourceId: string;
+    readonly namespace?: string;
+}
+
+export interface ContainerNode {
+    readonly id : string;
+    readonly podName : string;
+    readonly namespace? : string;
+    readonly containerName : string;
+}
+
+export function isContainerNode(obj: any) : obj is ContainerNode {
+    return obj && obj.podName && obj.containerName;
 }
 
-export class KubernetesExplorer implements vscode.TreeDataProvider<KubernetesObject> {
+export class KubernetesExplorer implements vscode.TreeDataProvider<KubernetesObject>, vscode.Disposable {
 	private _onDidChangeTreeData: vscode.EventEmitter<KubernetesObject | undefined> = new vscode.EventEmitter<KubernetesObject | undefined>();
 	readonly onDidChangeTreeData: vscode.Event<KubernetesObject | undefined> = this._onDidChangeTreeData.event;
-
-    constructor(private readonly kubectl : Kubectl, private readonly host : Host) {}
+    private readonly watcher : ResourceWatcher<KubernetesObject>;
+    private readonly parents = new WeakMap<KubernetesObject, KubernetesObject>();
+
+    constructor(private readonly kubectl : Kubectl, private readonly host : Host, private readonly readKubeconfig : () => Promise<kubeconfig.KubeConfig>) {
+        this.watcher = new ResourceWatcher(kubectl, (folder) => {
+            // The folder's children are about to be replaced, so their watches are finished with.
+            this.unwatchBelow(folder);
+            this._onDidChangeTreeData.fire(folder);
+        });
+    }
 
     getTreeItem(element: KubernetesObject) : vscode.TreeItem | Thenable<vscode.TreeItem> {
         return element.getTreeItem();
@@ -43,18 +69,81 @@ export class KubernetesExplorer implements vscode.TreeDataProvider<KubernetesObj
 
     getChildren(parent? : KubernetesObject) : vscode.ProviderResult<KubernetesObject[]> {
         if (parent) {
-            return parent.getChildren(this.kubectl, this.host);
+            if (parent instanceof KubernetesResourceFolder && this.isWatchEnabled()) {
+                this.watcher.watch(parent, parent.kind.abbreviation, parent.namespace);
+            }
+            return Promise.resolve(parent.getChildren(this.kubectl, this.host)).then((children) => {
+                (children || []).forEach((c) => this.parents.set(c, parent));
+                return children;
+            });
         }
         return this.getClusters();
     }
 
     refresh(): void {
+        // Every node is about to be replaced; expanded folders are watched again as they are listed.
+        this.watcher.unwatchAll();
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Stops watching folders when they are collapsed, and all folders when the view is hidden.
+     */
+    trackVisibility(treeView : vscode.TreeView<KubernetesObject>) : vscode.Disposable {
+        const subscriptions = [
+            treeView.onDidCollapseElement((e) => {
+                this.watcher.unwatch(e.element);
+                this.unwatchBelow(e.element);
+            }),
+            treeView.onDidChangeVisibility((e) => {
+                if (e.visible) {
+                    this.refresh();  // catch up, and watch the expanded folders again
+                } else {
+                    this.watcher.unwatchAll();
+                }
+            })
+        ];
+        return vscode.Disposable.from(...subscriptions);
+    }
+
+    dispose() : void {
+        this.watcher.dispose();
+        this._onDidChangeTreeData.dispose();
+    }
+
+    private isWatchEnabled() : boolean {
+        return !!this.host.getConfiguration('vs-kubernetes')[EXPLORER_WATCH_SETTING];
+    }
+
+    private unwatchBelow(node : KubernetesObject) : void {
+        for (const watched of this.watcher.watchedNodes()) {
+            if (this.isAncestor(node, watched)) {
+                this.watcher.unwatch(watched);
+            }
+        }
+    }
+
+    private isAncestor(ancestor : KubernetesObject, node : KubernetesObject) : boolean {
+        for (let p = this.parents.get(node); p; p = this.parents.get(p)) {
+            if (p === ancestor) {
+                return true;
+            }
+        }
+        return false;
+    }
+
     private async getClusters() : Promise<KubernetesObject[]> {
-        const clusters = await kubectlUtils.getClusters(this.kubectl);
-        return clusters.map((cluster) => new KubernetesCluster(cluster.name, cluster));
+        let kc : kubeconfig.KubeConfig;
+        try {
+            kc = await this.readKubeconfig();
+        } catch (ex) {
+            this.host.showErrorMessage(`Unable to read kubeconfig: ${ex.message || ex}`);
+            return [];
+        }
+        const clusters = kubectlUtils.getClusters(kc);
+        // With several kubeconfig files in use, show which each cluster came from.
+        const showSource = clusters.some((c) => c.source !== clusters[0].source);
+        return clusters.map((cluster) => new KubernetesCluster(cluster.name, cluster, showSource));
     }
 }
 
@@ -76,15 +165,15 @@ class DummyObject implements KubernetesObject {
 }
 
 class KubernetesCluster implements KubernetesObject {
-    constructor(readonly id: string, readonly metadata?: any) {
+    constructor(readonly id: string, readonly metadata?: any, private readonly showSource: boolean = false) {
     }
 
     getChildren(kubectl: Kubectl, host : Host) : vscode.ProviderResult<KubernetesObject[]> {
         return [
             new KubernetesNamespaceFolder(),
             new KubernetesResourceFolder(kuberesources.allKinds.node),
-            new KubernetesWorkloadFolder(),
-            new KubernetesResourceFolder(kuberesources.allKinds.service)
+            ...groupingFolders(),
+            new KubernetesApiResourcesFolder()
         ];
     }
 
@@ -92,6 +181,10 @@ class KubernetesCluster implements KubernetesObject {
         const treeItem = new vscode.TreeItem(this.id, vscode.TreeItemCollapsibleState.Collapsed);
         treeItem.contextValue = "vsKubernetes.cluster";
         treeItem.iconPath = vscode.Uri.file(path.join(__dirname, "../../images/k8s-logo.png"));
+        if (this.showSource) {
+            treeItem.description = shortenPath(this.metadata.source);
+            treeItem.tooltip = `${this.metadata.context} (from ${this.metadata.source})`;
+        }
         if (!this.metadata.active) {
             treeItem.collapsibleState = vscode.TreeItemCollapsibleState.None;
             treeItem.contextValue += ".inactive";
@@ -113,42 +206,109 @@ abstract class KubernetesFolder implements KubernetesObject {
     }
 }
 
-class KubernetesWorkloadFolder extends KubernetesFolder {
-    constructor() {
-        super("workload", "Workloads");
+const GROUPINGS = [
+    { id: "workload", displayName: "Workloads", kinds: [
+        kuberesources.allKinds.deployment,
+        kuberesources.allKinds.statefulSet,
+        kuberesources.allKinds.daemonSet,
+        kuberesources.allKinds.replicaSet,
+        kuberesources.allKinds.job,
+        kuberesources.allKinds.cronJob,
+        kuberesources.allKinds.pod
+    ] },
+    { id: "network", displayName: "Network", kinds: [
+        kuberesources.allKinds.service,
+        kuberesources.allKinds.ingress
+    ] },
+    { id: "configuration", displayName: "Configuration", kinds: [
+        kuberesources.allKinds.configMap,
+        kuberesources.allKinds.secret
+    ] },
+    { id: "storage", displayName: "Storage", kinds: [
+        kuberesources.allKinds.persistentVolumeClaim,
+        kuberesources.allKinds.persistentVolume
+    ] }
+];
+
+function groupingFolders(namespace?: string) : KubernetesObject[] {
+    return GROUPINGS.map((g) => new KubernetesGroupingFolder(g.id, g.displayName, g.kinds, namespace));
+}
+
+/**
+ * Groups the folders of related kinds, such as the kinds of workload. Under a namespace, kinds
+ * which don't belong to namespaces are left out.
+ */
+class KubernetesGroupingFolder extends KubernetesFolder {
+    constructor(id: string, displayName: string, readonly kinds: kuberesources.ResourceKind[], readonly namespace?: string) {
+        super(id, displayName);
     }
 
     getChildren(kubectl: Kubectl, host : Host) : vscode.ProviderResult<KubernetesObject[]> {
-        return [
-            new KubernetesResourceFolder(kuberesources.allKinds.deployment),
-            new KubernetesResourceFolder(kuberesources.allKinds.job),
-            new KubernetesResourceFolder(kuberesources.allKinds.pod)
-        ];
+        const kinds = this.namespace ? this.kinds.filter((k) => k.namespaced) : this.kinds;
+        return kinds.map((k) => new KubernetesResourceFolder(k, this.namespace));
+    }
+}
+
+/**
+ * Lists every kind of object the cluster serves, including custom resources, grouped by
+ * API group. If a namespace is given, only kinds which belong to namespaces are listed.
+ */
+class KubernetesApiResourcesFolder extends KubernetesFolder {
+    constructor(readonly namespace?: string) {
+        super("apiresources", "API Resources");
+    }
+
+    async getChildren(kubectl: Kubectl, host : Host) : Promise<KubernetesObject[]> {
+        const kinds = await kubectlUtils.getResourceKinds(kubectl);
+        if (shell.isShellResult(kinds)) {
+            host.showErrorMessage(kinds.stderr);
+            return [ new DummyObject("Error") ];
+        }
+        const listed = this.namespace ? kinds.filter((k) => k.namespaced) : kinds;
+        return kuberesources.groupKinds(listed).map((g) => new KubernetesApiGroupFolder(g.group, g.kinds, this.namespace));
     }
 }
 
+class KubernetesApiGroupFolder extends KubernetesFolder {
+    constructor(readonly group: string, readonly kinds: kuberesources.ResourceKind[], readonly namespace?: string) {
+        super(`apigroup.${group}`, group || "core", "vsKubernetes.apigroup");
+    }
+
+    getChildren(kubectl: Kubectl, host : Host) : vscode.ProviderResult<KubernetesObject[]> {
+        return this.kinds.map((k) => new KubernetesResourceFolder(k, this.namespace));
+    }
+}
+
+/**
+ * Lists the objects of a kind. If a namespace is given, the objects are listed from that
+ * namespace; otherwise kubectl lists them from the active namespace.
+ */
 class KubernetesResourceFolder extends KubernetesFolder {
-    constructor(readonly kind: kuberesources.ResourceKind) {
+    constructor(readonly kind: kuberesources.ResourceKind, readonly namespace?: string) {
         super(kind.abbreviation, kind.pluralDisplayName, "vsKubernetes.kind");
     }
 
     async getChildren(kubectl: Kubectl, host : Host) : Promise<KubernetesObject[]> {
-        const childrenLines = await kubectl.asLines("get " + this.kind.abbreviation);
-        if (shell.isShellResult(childrenLines)) {
-            host.showErrorMessage(childrenLines.stderr);
+        const resources = await kubectlUtils.getResources(kubectl, this.kind.abbreviation, this.namespace);
+        if (shell.isShellResult(resources)) {
+            host.showErrorMessage(resources.stderr);
             return [ new DummyObject("Error") ];
         }
-        return childrenLines.map((line) => {
-            const bits = line.split(' ');
-            return new KubernetesResource(this.kind, bits[0]);
-        });
+        return resources.map((info) => resourceNode(this.kind, info.name, info, info.namespace || this.namespace));
+    }
+}
+
+function resourceNode(kind: kuberesources.ResourceKind, id: string, metadata?: any, namespace?: string) : KubernetesResource {
+    if (kind === kuberesources.allKinds.pod) {
+        return new KubernetesPodResource(kind, id, metadata, namespace);
     }
+    return new KubernetesResource(kind, id, metadata, namespace);
 }
 
 class KubernetesResource implements KubernetesObject, ResourceNode {
     readonly resourceId: string;
 
-    constructor(readonly kind: kuberesources.ResourceKind, readonly id: string, readonly metadata?: any) {
+    constructor(readonly kind: kuberesources.ResourceKind, readonly id: string, readonly metadata?: any, readonly namespace?: string) {
         this.resourceId = kind.abbreviation + '/' + id;
     }
 
@@ -163,14 +323,139 @@ class KubernetesResource implements KubernetesObject, ResourceNode {
             title: "Load",
             arguments: [ this ]
         };
-        treeItem.contextValue = `vsKubernetes.resource`;
-        if (this.kind === kuberesources.allKinds.pod) {
-            treeItem.contextValue = `vsKubernetes.resource.${this.kind.abbreviation}`;
+        treeItem.contextValue = `vsKubernetes.resource.${this.kind.abbreviation}`;
+        if (isResourceInfo(this.metadata)) {
+            treeItem.tooltip = resourceTooltip(this.metadata);
+            treeItem.description = resourceDescription(this.metadata);
+            if (this.metadata.health !== 'unknown') {
+                treeItem.iconPath = statusIconPath(this.metadata.health);
+            }
+        }
+        return treeItem;
+    }
+}
+
+class KubernetesPodResource extends KubernetesResource {
+    constructor(readonly kind: kuberesources.ResourceKind, readonly id: string, readonly metadata?: any, readonly namespace?: string) {
+        super(kind, id, metadata, namespace);
+    }
+
+    async getChildren(kubectl: Kubectl, host : Host) : Promise<KubernetesObject[]> {
+        let pod : kubectlUtils.KubernetesResource;
+        if (isResourceInfo(this.metadata)) {
+            pod = this.metadata.resource;
+        } else {
+            const podResult = await kubectlUtils.getResource(kubectl, this.resourceId, this.namespace);
+            if (shell.isShellResult(podResult)) {
+                host.showErrorMessage(podResult.stderr);
+                return [ new DummyObject("Error") ];
+            }
+            pod = podResult;
+        }
+        return kubectlUtils.getContainers(pod).map((c) => new KubernetesContainer(this.id, this.namespace, c));
+    }
+
+    async getTreeItem() : Promise<vscode.TreeItem> {
+        const treeItem = await super.getTreeItem();
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+        return treeItem;
+    }
+}
+
+class KubernetesContainer implements KubernetesObject, ContainerNode {
+    readonly id: string;
+    readonly containerName: string;
+
+    constructor(readonly podName: string, readonly namespace: string | undefined, readonly metadata: kubectlUtils.ContainerInfo) {
+        this.id = metadata.name;
+        this.containerName = metadata.name;
+    }
+
+    getChildren(kubectl: Kubectl, host : Host) : vscode.ProviderResult<KubernetesObject[]> {
+        return [];
+    }
+
+    getTreeItem() : vscode.TreeItem | Thenable<vscode.TreeItem> {
+        const label = this.metadata.init ? `${this.id} (init)` : this.id;
+        const treeItem = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        treeItem.contextValue = this.metadata.init ? "vsKubernetes.container.init" : "vsKubernetes.container";
+        treeItem.description = this.metadata.restartCount > 0 ?
+            `${this.metadata.state} (${this.metadata.restartCount} restarts)` :
+            this.metadata.state;
+        treeItem.tooltip = [
+            `Container: ${this.id}${this.metadata.init ? ' (init)' : ''}`,
+            `Image: ${this.metadata.image}`,
+            `State: ${this.metadata.state}`,
+            `Ready: ${this.metadata.ready}`,
+            `Restarts: ${this.metadata.restartCount}`
+        ].join('\n');
+        if (this.metadata.health !== 'unknown') {
+            treeItem.iconPath = statusIconPath(this.metadata.health);
         }
         return treeItem;
     }
 }
 
+function shortenPath(filePath: string) : string {
+    const home = shell.shell.home();
+    if (home && filePath.startsWith(home)) {
+        return '~' + filePath.substring(home.length);
+    }
+    return filePath;
+}
+
+function isResourceInfo(metadata: any) : metadata is kubectlUtils.ResourceInfo {
+    return metadata && metadata.resource && metadata.health;
+}
+
+function resourceDescription(info: kubectlUtils.ResourceInfo) : string {
+    return [info.ready, info.status].filter((s) => !!s).join(' ');
+}
+
+function resourceTooltip(info: kubectlUtils.ResourceInfo) : string {
+    const lines = [ `${info.kind}: ${info.name}` ];
+    if (info.namespace) {
+        lines.push(`Namespace: ${info.namespace}`);
+    }
+    if (info.status) {
+        lines.push(`Status: ${info.status}`);
+    }
+    if (info.ready) {
+        lines.push(`Ready: ${info.ready}`);
+    }
+    if (info.restarts !== undefined) {
+        lines.push(`Restarts: ${info.restarts}`);
+    }
+    if (info.creationTimestamp) {
+        lines.push(`Age: ${age(info.creationTimestamp)}`);
+    }
+    const labels = Object.keys(info.labels).map((k) => `${k}=${info.labels[k]}`);
+    if (labels.length > 0) {
+        lines.push(`Labels: ${labels.join(', ')}`);
+    }
+    return lines.join('\n');
+}
+
+function age(timestamp: string) : string {
+    const seconds = Math.max(0, Math.floor((Date.now() - Date.parse(timestamp)) / 1000));
+    if (seconds < 120) {
+        return `${seconds}s`;
+    }
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 120) {
+        return `${minutes}m`;
+    }
+    const hours = Math.floor(minutes / 60);
+    if (hours < 48) {
+        return `${hours}h`;
+    }
+    return `${Math.floor(hours / 24)}d`;
+}
+
+function statusIconPath(health: kubectlUtils.ResourceHealth) : vscode.Uri {
+    return vscode.Uri.file(path.join(__dirname, `../../images/status/${health}.svg`));
+}
+
 class KubernetesNamespaceFolder extends KubernetesResourceFolder {
     constructor() {
         super(kuberesources.allKinds.namespace);
@@ -187,8 +472,16 @@ class KubernetesNamespaceResource extends KubernetesResource {
         super(kind, id, metadata);
     }
 
+    getChildren(kubectl: Kubectl, host : Host) : vscode.ProviderResult<KubernetesObject[]> {
+        return [
+            ...groupingFolders(this.id),
+            new KubernetesApiResourcesFolder(this.id)
+        ];
+    }
+
     async getTreeItem() : Promise<vscode.TreeItem> {
         const treeItem = await super.getTreeItem();
+        treeItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
         treeItem.contextValue = `vsKubernetes.resource.${this.kind.abbreviation}`;
         if (this.metadata.active) {
             treeItem.label = "* " + treeItem.label;
@@ -0,0 +1,202 @@
+import { ChildProcess } from 'child_process';
+import * as vscode from 'vscode';
+
+import { Kubectl } from './kubectl';
+
+export const EXPLORER_WATCH_SETTING = 'vs-kubernetes.explorer-watch';
+
+export interface WatchTiming {
+    /** How long to wait for a burst of changes to finish before reporting them. */
+    readonly debounceMs : number;
+    /** How long to wait before restarting a watch which stopped, doubling on each failure. */
+    readonly initialBackoffMs : number;
+    readonly maxBackoffMs : number;
+}
+
+const DEFAULT_TIMING : WatchTiming = {
+    debounceMs: 500,
+    initialBackoffMs: 1000,
+    maxBackoffMs: 60000
+};
+
+interface Watch {
+    readonly kind : string;
+    readonly namespace : string | undefined;
+    process : ChildProcess | undefined;
+    buffer : string;
+    backoffMs : number;
+    pendingChange : NodeJS.Timer | undefined;
+    pendingRestart : NodeJS.Timer | undefined;
+    stopped : boolean;
+}
+
+/**
+ * The arguments for watching a kind of object, reporting only changes after the watch starts.
+ */
+export function watchArgs(kind : string, namespace : string | undefined) : string[] {
+    const namespaceArgs = namespace ? [ '--namespace', namespace ] : [];
+    return [ 'get', kind, ...namespaceArgs, '--watch-only', '-o', 'json' ];
+}
+
+/**
+ * Splits kubectl watch output into the JSON objects it contains.  kubectl writes each object
+ * pretty-printed, one after another, so an object can be split across several chunks of
+ * output; the remainder is the start of an object which has not been completed yet.
+ */
+export function splitJsonObjects(text : string) : { objects : string[], remainder : string } {
+    const objects : string[] = [];
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let start = 0;
+    for (let i = 0; i < text.length; ++i) {
+        const c = text[i];
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (c === '\\') {
+                escaped = true;
+            } else if (c === '"') {
+                inString = false;
+            }
+        } else if (c === '"') {
+            inString = true;
+        } else if (c === '{') {
+            if (depth === 0) {
+                start = i;
+            }
+            ++depth;
+        } else if (c === '}' && depth > 0) {
+            --depth;
+            if (depth === 0) {
+                objects.push(text.substring(start, i + 1));
+                start = i + 1;
+            }
+        }
+    }
+    const remainder = depth > 0 ? text.substring(start) : '';
+    return { objects: objects, remainder: remainder };
+}
+
+// Runs a kubectl watch for each node, calling back when objects of the node's kind change.
+// Bursts of changes, such as a deployment rolling out, are reported once.  If kubectl
+// exits, for example because the connection to the cluster dropped, the watch is
+// restarted after a delay which grows while it keeps failing.
+export class ResourceWatcher<T> implements vscode.Disposable {
+    private readonly watches = new Map<T, Watch>();
+
+    constructor(
+        private readonly kubectl : Kubectl,
+        private readonly onChange : (node : T) => void,
+        private readonly timing : WatchTiming = DEFAULT_TIMING) {
+    }
+
+    isWatching(node : T) : boolean {
+        return this.watches.has(node);
+    }
+
+    watchedNodes() : T[] {
+        return Array.from(this.watches.keys());
+    }
+
+    watch(node : T, kind : string, namespace : string | undefined) : void {
+        if (this.watches.has(node)) {
+            return;
+        }
+        const watch : Watch = {
+            kind: kind,
+            namespace: namespace,
+            process: undefined,
+            buffer: '',
+            backoffMs: this.timing.initialBackoffMs,
+            pendingChange: undefined,
+            pendingRestart: undefined,
+            stopped: false
+        };
+        this.watches.set(node, watch);
+        this.start(node, watch);
+    }
+
+    unwatch(node : T) : void {
+        const watch = this.watches.get(node);
+        if (!watch) {
+            return;
+        }
+        this.watches.delete(node);
+        watch.stopped = true;
+        if (watch.pendingChange) {
+            clearTimeout(watch.pendingChange);
+        }
+        if (watch.pendingRestart) {
+            clearTimeout(watch.pendingRestart);
+        }
+        if (watch.process) {
+            watch.process.kill();
+        }
+    }
+
+    unwatchAll() : void {
+        for (const node of this.watchedNodes()) {
+            this.unwatch(node);
+        }
+    }
+
+    dispose() : void {
+        this.unwatchAll();
+    }
+
+    private async start(node : T, watch : Watch) : Promise<void> {
+        const process = await this.kubectl.spawnAsChild(watchArgs(watch.kind, watch.namespace));
+        if (!process) {
+            this.unwatch(node);  // kubectl is not available; the user has already been told
+            return;
+        }
+        if (watch.stopped) {
+            process.kill();
+            return;
+        }
+        watch.process = process;
+        watch.buffer = '';
+        process.stdout.on('data', (data) => this.onOutput(node, watch, data.toString()));
+        process.on('error', () => { /* reported by the 'close' event */ });
+        process.on('close', () => this.onExit(node, watch));
+    }
+
+    private onOutput(node : T, watch : Watch, text : string) : void {
+        const split = splitJsonObjects(watch.buffer + text);
+        watch.buffer = split.remainder;
+        if (split.objects.length > 0) {
+            watch.backoffMs = this.timing.initialBackoffMs;
+            this.scheduleChange(node, watch);
+        }
+    }
+
+    private onExit(node : T, watch : Watch) : void {
+        watch.process = undefined;
+        if (watch.stopped) {
+            return;
+        }
+        const delay = watch.backoffMs;
+        watch.backoffMs = Math.min(watch.backoffMs * 2, this.timing.maxBackoffMs);
+        watch.pendingRestart = setTimeout(() => {
+            watch.pendingRestart = undefined;
+            if (!watch.stopped) {
+                // Changes may have been missed while the watch was down.
+                this.scheduleChange(node, watch);
+                this.start(node, watch);
+            }
+        }, delay);
+    }
+
+    private scheduleChange(node : T, watch : Watch) : void {
+        if (watch.pendingChange) {
+            return;
+        }
+        watch.pendingChange = setTimeout(() => {
+            watch.pendingChange = undefined;
+            if (!watch.stopped) {
+                this.onChange(node);
+            }
+        }, this.timing.debounceMs);
+    }
+}
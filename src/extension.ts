@@ -5,20 +5,18 @@
 import * as vscode from 'vscode';
 
 // Standard node imports
-import * as os from 'os';
 import * as path from 'path';
 import { fs } from './fs';
 
 // External dependencies
 import * as yaml from 'js-yaml';
-import * as dockerfileParse from 'dockerfile-parse';
 import * as tmp from 'tmp';
 import * as uuid from 'uuid';
 
 // Internal dependencies
 import { host } from './host';
 import * as explainer from './explainer';
-import { shell, ShellResult } from './shell';
+import { shell, ShellResult, isShellResult } from './shell';
 import * as configureFromCluster from './configurefromcluster';
 import * as createCluster from './createcluster';
 import { UIRequest as WizardUIRequest } from './wizard';
@@ -37,14 +35,34 @@ import { HelmRequirementsCodeLensProvider } from './helm.requirementsCodeLens';
 import { HelmTemplateHoverProvider } from './helm.hoverProvider';
 import { HelmTemplatePreviewDocumentProvider, HelmInspectDocumentProvider } from './helm.documentProvider';
 import { HelmTemplateCompletionProvider } from './helm.completionProvider';
+import { LogsDocumentProvider, LogsOptions, LOGS_SCHEME } from './logs';
+import * as portforward from './portForward';
+import * as debugProviders from './debugProviders';
+import * as imageBuilder from './imageBuilder';
+import * as diff from './diff';
+import * as manifest from './manifest';
+import * as schema from './schema';
+import * as schemaSource from './schemaSource';
+import { ManifestDiagnosticsProvider } from './manifestDiagnostics';
+import { ManifestCompletionProvider } from './manifestCompletionProvider';
+import * as protectedContexts from './protectedContexts';
+import { ContextStatusBar } from './contextStatusBar';
+import * as resourceFileSystem from './resourceFileSystem';
+import * as cleanManifest from './cleanManifest';
+import * as rollout from './rollout';
+import { findParentYaml } from './yamlNavigation';
 
 let explainActive = false;
-let swaggerSpecPromise = null;
+// The schema of the current cluster.  This is cleared when the context or the kubeconfig
+// changes, as the explorer is refreshed, so that it is loaded again for the new cluster.
+let schemaPromise : Promise<schemaSource.LoadedSchema> | null = null;
 
 const kubectl = kubectlCreate(host, fs, shell);
 const draft = draftCreate(host, fs, shell);
 const configureFromClusterUI = configureFromCluster.uiProvider(fs, shell);
 const createClusterUI = createCluster.uiProvider(fs, shell);
+const logsProvider = new LogsDocumentProvider(kubectl);
+const portForwards = new portforward.PortForwardManager(kubectl);
 
 const deleteMessageItems: vscode.MessageItem[] = [
     {
@@ -72,6 +90,8 @@ export function activate(context) {
     const previewProvider = new HelmTemplatePreviewDocumentProvider();
     const inspectProvider = new HelmInspectDocumentProvider();
     const completionProvider = new HelmTemplateCompletionProvider();
+    const treeView = vscode.window.createTreeView('extension.vsKubernetesExplorer', { treeDataProvider: treeProvider });
+    const contextStatusBar = new ContextStatusBar('extension.vsKubernetesSwitchContext', host);
     const completionFilter = [
         "helm",
         {language: "yaml", pattern: "**/templates/*.yaml"},
@@ -81,16 +101,20 @@ export function activate(context) {
     const subscriptions = [
 
         // Commands - Kubernetes
-        vscode.commands.registerCommand('extension.vsKubernetesCreate',
-            maybeRunKubernetesCommandForActiveWindow.bind(this, 'create -f')
-        ),
+        vscode.commands.registerCommand('extension.vsKubernetesCreate', createKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesDelete', deleteKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesApply', applyKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesExplain', explainActiveWindow),
         vscode.commands.registerCommand('extension.vsKubernetesLoad', loadKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesGet', getKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesLoadClean', loadCleanKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesReloadResource', reloadResourceKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesRun', runKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesLogs', logsKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesFollowLogs', followLogsKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesWorkloadLogs', workloadLogsKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesPortForward', portForwardKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesStopPortForward', stopPortForwardKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesExpose', exposeKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesDescribe', describeKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesSync', syncKubernetes),
@@ -98,12 +122,25 @@ export function activate(context) {
         vscode.commands.registerCommand('extension.vsKubernetesTerminal', terminalKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesDiff', diffKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesScale', scaleKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesRolloutStatus', rolloutStatusKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesRolloutHistory', rolloutHistoryKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesRolloutUndo', rolloutUndoKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesRolloutPause', rolloutPauseKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesRolloutResume', rolloutResumeKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesRolloutRestart', rolloutRestartKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesSetImage', setImageKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesDebug', debugKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesAttachDebugger', attachDebuggerKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesRemoveDebug', removeDebugKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesConfigureFromCluster', configureFromClusterKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesCreateCluster', createClusterKubernetes),
-        vscode.commands.registerCommand('extension.vsKubernetesRefreshExplorer', () => treeProvider.refresh()),
+        vscode.commands.registerCommand('extension.vsKubernetesRefreshExplorer', () => {
+            treeProvider.refresh();
+            contextStatusBar.refresh();
+        }),
+        vscode.commands.registerCommand('extension.vsKubernetesUseKubeconfig', useKubeconfigKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesUseContext', useContextKubernetes),
+        vscode.commands.registerCommand('extension.vsKubernetesSwitchContext', switchContextKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesClusterInfo', clusterInfoKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesDeleteContext', deleteContextKubernetes),
         vscode.commands.registerCommand('extension.vsKubernetesUseNamespace', useNamespaceKubernetes),
@@ -129,9 +166,13 @@ export function activate(context) {
         vscode.workspace.registerTextDocumentContentProvider(createCluster.uriScheme, createClusterUI),
         vscode.workspace.registerTextDocumentContentProvider(helm.PREVIEW_SCHEME, previewProvider),
         vscode.workspace.registerTextDocumentContentProvider(helm.INSPECT_SCHEME, inspectProvider),
+        vscode.workspace.registerTextDocumentContentProvider(LOGS_SCHEME, logsProvider),
+        vscode.workspace.registerFileSystemProvider(resourceFileSystem.K8S_RESOURCE_SCHEME, new resourceFileSystem.ResourceFileSystemProvider(kubectl, fs), { isCaseSensitive: true }),
+        logsProvider,
 
         // Completion providers
         vscode.languages.registerCompletionItemProvider(completionFilter, completionProvider),
+        vscode.languages.registerCompletionItemProvider(['yaml', 'helm'], new ManifestCompletionProvider(currentSchema)),
 
         // Hover providers
         vscode.languages.registerHoverProvider(
@@ -145,12 +186,31 @@ export function activate(context) {
         vscode.languages.registerHoverProvider(HELM_MODE, new HelmTemplateHoverProvider()),
 
         // Tree data providers
-        vscode.window.registerTreeDataProvider('extension.vsKubernetesExplorer', treeProvider),
+        treeView,
+        treeProvider.trackVisibility(treeView),
+        treeProvider,
 
         // Code lenses
-        vscode.languages.registerCodeLensProvider(HELM_REQ_MODE, new HelmRequirementsCodeLensProvider())
+        vscode.languages.registerCodeLensProvider(HELM_REQ_MODE, new HelmRequirementsCodeLensProvider()),
+
+        // Status bar
+        new portforward.PortForwardStatusBar(portForwards, 'extension.vsKubernetesStopPortForward'),
+        contextStatusBar,
+
+        // Diagnostics
+        new ManifestDiagnosticsProvider(currentSchema),
+
+        portForwards
     ];
 
+    // A different kubeconfig may have been chosen, or watching turned on or off.
+    subscriptions.push(vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('vs-kubernetes')) {
+            schemaPromise = null;
+            treeProvider.refresh();
+        }
+    }));
+
     // On save, refresh the Helm YAML preview.
     vscode.workspace.onDidSaveTextDocument((e: vscode.TextDocument) => {
         if (!editorIsActive()) {
@@ -185,7 +245,9 @@ export function activate(context) {
 }
 
 // this method is called when your extension is deactivated
-export const deactivate = () => { };
+export const deactivate = () => {
+    portForwards.stopAll();
+};
 
 function provideHover(document, position, token, syntax) : Promise<vscode.Hover> {
     return new Promise(async (resolve) => {
@@ -194,11 +256,10 @@ function provideHover(document, position, token, syntax) : Promise<vscode.Hover>
             return;
         }
 
-        const body = document.getText();
         let obj: any = {};
 
         try {
-            obj = syntax.parse(body);
+            obj = syntax.parseObjectAt(document, position);
         } catch (err) {
             // Bad document
             resolve(null);
@@ -206,7 +267,7 @@ function provideHover(document, position, token, syntax) : Promise<vscode.Hover>
         }
 
         // Not a k8s object.
-        if (!obj.kind) {
+        if (!obj || !obj.kind) {
             resolve(null);
             return;
         }
@@ -235,6 +296,7 @@ function provideHover(document, position, token, syntax) : Promise<vscode.Hover>
 function provideHoverJson(document, position, token) {
     const syntax = {
         parse: (text) => JSON.parse(text),
+        parseObjectAt: (document, position) => JSON.parse(document.getText()),
         findParent: (document, parentLine) => findParentJson(document, parentLine - 1)
     };
 
@@ -244,6 +306,10 @@ function provideHoverJson(document, position, token) {
 function provideHoverYaml(document, position, token) {
     const syntax = {
         parse: (text) => yaml.safeLoad(text),
+        parseObjectAt: (document, position) => {
+            const obj = manifest.objectAt(manifest.parseManifest(document.getText()), document.offsetAt(position));
+            return obj ? obj.object : null;
+        },
         findParent: (document, parentLine) => findParentYaml(document, parentLine)
     };
 
@@ -280,34 +346,6 @@ function findParentJson(document, line) {
     return line;
 }
 
-function findParentYaml(document, line) {
-    let indent = yamlIndentLevel(document.lineAt(line).text);
-    while (line >= 0) {
-        let txt = document.lineAt(line);
-        if (yamlIndentLevel(txt.text) < indent) {
-            return line;
-        }
-        line = line - 1;
-    }
-    return line;
-}
-
-function yamlIndentLevel(str) {
-    let i = 0;
-
-    //eslint-disable-next-line no-constant-condition
-    while (true) {
-        if (str.length <= i || !isYamlIndentChar(str.charAt(i))) {
-            return i;
-        }
-        ++i;
-    }
-}
-
-function isYamlIndentChar(ch) {
-    return ch === ' ' || ch === '-';
-}
-
 async function explain(obj, field) {
     return new Promise((resolve) => {
         if (!obj.kind) {
@@ -320,16 +358,28 @@ async function explain(obj, field) {
             ref = ref + '.' + field;
         }
 
-        if (!swaggerSpecPromise) {
-            swaggerSpecPromise = explainer.readSwagger();
-        }
-
-        swaggerSpecPromise.then((s) => {
-            resolve(explainer.readExplanation(s, ref));
+        explainSchema().then((s) => {
+            const explanation = explainer.readExplanation(s.schema, obj.apiVersion, ref);
+            resolve(`${explanation}\n\n---\n\n_${schemaSource.describeSchema(s)}_`);
         });
     });
 }
 
+function explainSchema() : Promise<schemaSource.LoadedSchema> {
+    if (!schemaPromise) {
+        schemaPromise = schemaSource.loadSchema(kubectl, fs, shell);
+    }
+    return schemaPromise;
+}
+
+// Uses the cluster's schema if it has been loaded for Explain, otherwise the bundled one.
+function currentSchema() : Promise<schema.KubernetesSchema> {
+    if (!schemaPromise) {
+        return Promise.resolve(schema.bundledSchema());
+    }
+    return schemaPromise.then((s) => s.schema);
+}
+
 function explainActiveWindow() {
     let editor = vscode.window.activeTextEditor;
     let bar = initStatusBar();
@@ -344,9 +394,9 @@ function explainActiveWindow() {
     if (explainActive) {
         vscode.window.showInformationMessage('Kubernetes API explain activated.');
         bar.show();
-        if (!swaggerSpecPromise) {
-            swaggerSpecPromise = explainer.readSwagger();
-        }
+        explainSchema().then((s) => {
+            bar.tooltip = `Kubernetes API explain: ${schemaSource.describeSchema(s)}`;
+        });
     } else {
         vscode.window.showInformationMessage('Kubernetes API explain deactivated.');
         bar.hide();
@@ -419,6 +469,12 @@ function maybeRunKubernetesCommandForActiveWindow(command) {
     return true;
 }
 
+async function createKubernetes() {
+    if (await protectedContexts.confirmProtectedContext('Create the objects in this document')) {
+        maybeRunKubernetesCommandForActiveWindow('create -f');
+    }
+}
+
 function kubectlViaTempFile(command, fileContent) {
     const tmpobj = tmp.fileSync();
     fs.writeFileSync(tmpobj.name, fileContent);
@@ -496,23 +552,53 @@ function getTextForActiveWindow(callback) {
 
 function loadKubernetes(explorerNode? : explorer.ResourceNode) {
     if (explorerNode) {
-        loadKubernetesCore(explorerNode.resourceId);
+        loadKubernetesCore(explorerNode.resourceId, explorerNode.namespace);
     } else {
-        promptKindName(kuberesources.commonKinds, "load", { nameOptional: true }, (value) => {
+        promptKindName(allResourceKinds, "load", { nameOptional: true }, (value) => {
             loadKubernetesCore(value);
         });
     }
 }
 
-function loadKubernetesCore(value : string) {
-    kubectl.invokeWithProgress(" -o json get " + value, `Loading ${value}...`, (result, stdout, stderr) => {
+// Kinds which aren't known, such as kinds typed by the user as plurals, are taken to be namespaced.
+async function isNamespacedKind(abbreviation : string) : Promise<boolean> {
+    const wellKnown = Object.keys(kuberesources.allKinds).map((k) => kuberesources.allKinds[k]);
+    const kind = kuberesources.findKind(wellKnown, abbreviation) || kuberesources.findKind(await allResourceKinds(), abbreviation);
+    return kind ? kind.namespaced : true;
+}
+
+async function loadKubernetesCore(value : string, namespace? : string) {
+    const format = cleanManifest.outputFormat();
+    const [kind, name] = value.split('/');
+    if (name) {
+        // A single object can be edited in place, and saving it updates the cluster.
+        const contextName = await protectedContexts.currentContextName();
+        if (contextName) {
+            const uri = resourceFileSystem.resourceUri({
+                context: contextName,
+                namespace: (await isNamespacedKind(kind)) ? (namespace || await kubectlUtils.currentNamespace() || 'default') : undefined,
+                kind: kind,
+                name: name,
+                format: format
+            });
+            try {
+                const doc = await vscode.workspace.openTextDocument(uri);
+                await vscode.window.showTextDocument(doc);
+            } catch (ex) {
+                vscode.window.showErrorMessage(`Failed to load ${value}: ${ex.message || ex}`);
+            }
+            return;
+        }
+    }
+
+    kubectl.invokeWithProgress(` -o ${format} get ` + value + namespaceArg(namespace), `Loading ${value}...`, (result, stdout, stderr) => {
         if (result !== 0) {
             vscode.window.showErrorMessage('Get command failed: ' + stderr);
             return;
         }
 
         const filename = value.replace('/', '-');
-        const filepath = path.join(vscode.workspace.rootPath || "", filename + '.json');
+        const filepath = path.join(vscode.workspace.rootPath || "", `${filename}.${format}`);
 
         vscode.workspace.openTextDocument(vscode.Uri.parse('untitled:' + filepath)).then((doc) => {
             const start = new vscode.Position(0, 0),
@@ -528,14 +614,59 @@ function loadKubernetesCore(value : string) {
     });
 }
 
-function exposeKubernetes() {
-    let kindName = findKindName();
-    if (!kindName) {
+function loadCleanKubernetes(explorerNode? : explorer.ResourceNode) {
+    if (explorerNode) {
+        loadCleanKubernetesCore(explorerNode.resourceId, explorerNode.namespace);
+    } else {
+        promptKindName(allResourceKinds, "load as a clean manifest", { nameOptional: true }, (value) => {
+            loadCleanKubernetesCore(value);
+        });
+    }
+}
+
+async function loadCleanKubernetesCore(value : string, namespace? : string) {
+    const resource = await kubectlUtils.getResource(kubectl, value, namespace);
+    if (isShellResult(resource)) {
+        vscode.window.showErrorMessage('Get command failed: ' + resource.stderr);
+        return;
+    }
+    const objects = kubectlUtils.isResourceList(resource) ? resource.items : [ resource ];
+    const format = cleanManifest.outputFormat();
+    const content = cleanManifest.formatManifest(objects.map(cleanManifest.cleanManifest), format);
+    const doc = await vscode.workspace.openTextDocument({ language: format, content: content });
+    await vscode.window.showTextDocument(doc);
+}
+
+async function reloadResourceKubernetes(uri? : vscode.Uri) {
+    const editor = vscode.window.activeTextEditor;
+    const document = uri ? vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString()) : editor && editor.document;
+    const target = uri || (document && document.uri);
+    if (!target || target.scheme !== resourceFileSystem.K8S_RESOURCE_SCHEME) {
+        vscode.window.showErrorMessage('The active document is not a Kubernetes object loaded from a cluster.');
+        return;
+    }
+    if (document && document.isDirty) {
+        const answer = await vscode.window.showWarningMessage('Discard your changes and reload the object from the cluster?', { modal: true }, 'Reload');
+        if (answer !== 'Reload') {
+            return;
+        }
+    }
+    await resourceFileSystem.reloadResource(target);
+}
+
+async function exposeKubernetes() {
+    const obj = await findManifestObject();
+    if (!obj) {
         vscode.window.showErrorMessage('couldn\'t find a relevant type to expose.');
         return;
     }
+    const kindName = obj.resourceId;
+
+    if (!(await protectedContexts.confirmProtectedContext(`Expose ${kindName}`))) {
+        return;
+    }
 
-    let cmd = `expose ${kindName}`;
+    let cmd = `expose ${kindName}${namespaceArg(obj.object.metadata.namespace)}`;
     let ports = getPorts();
 
     if (ports && ports.length > 0) {
@@ -545,18 +676,18 @@ function exposeKubernetes() {
     kubectl.invoke(cmd);
 }
 
-function getKubernetes(explorerNode? : any) {
+async function getKubernetes(explorerNode? : any) {
     if (explorerNode) {
         const id = explorerNode.resourceId || explorerNode.id;
         const fn = kubectlOutputTo(id + '-get');
-        kubectl.invoke(`get ${id} -o wide`, fn);
+        kubectl.invoke(`get ${id} -o wide${namespaceArg(explorerNode.namespace)}`, fn);
     } else {
-        let kindName = findKindName();
-        if (kindName) {
-            maybeRunKubernetesCommandForActiveWindow('get --no-headers -o wide -f ');
+        const obj = await findManifestObject();
+        if (obj) {
+            kubectl.invoke(`get ${obj.resourceId} -o wide --no-headers${namespaceArg(obj.object.metadata.namespace)}`);
             return;
         }
-        findKindNameOrPrompt(kuberesources.commonKinds, 'get', { nameOptional: true }, (value) => {
+        promptKindName(allResourceKinds, 'get', { nameOptional: true }, (value) => {
             kubectl.invoke(" get " + value + " -o wide --no-headers");
         });
     }
@@ -627,28 +758,29 @@ function _findNameAndImageInternal(fn) {
     const folderName = path.basename(vscode.workspace.rootPath);
     const name = docker.sanitiseTag(folderName);
     findVersion().then((version) => {
-        let image = name + ":" + version;
-        let user = vscode.workspace.getConfiguration().get("vsdocker.imageUser", null);
-        if (user) {
-            image = user + '/' + image;
-        }
+        const user = vscode.workspace.getConfiguration().get<string>("vsdocker.imageUser", null);
+        const image = imageBuilder.imageName(name.trim(), version.trim(), user);
 
         fn(name.trim(), image.trim());
     });
 }
 
-function scaleKubernetes() {
-    findKindNameOrPrompt(kuberesources.scaleableKinds, 'scale', {}, (kindName) => {
-        promptScaleKubernetes(kindName);
+function scaleKubernetes(explorerNode? : explorer.ResourceNode) {
+    if (explorerNode) {
+        promptScaleKubernetes(explorerNode.resourceId, explorerNode.namespace);
+        return;
+    }
+    findKindNameOrPrompt(kuberesources.scaleableKinds, 'scale', {}, (kindName, namespace) => {
+        promptScaleKubernetes(kindName, namespace);
     });
 }
 
-function promptScaleKubernetes(kindName : string) {
+function promptScaleKubernetes(kindName : string, namespace? : string) {
     vscode.window.showInputBox({ prompt: `How many replicas would you like to scale ${kindName} to?` }).then((value) => {
         if (value) {
             let replicas = parseFloat(value);
             if (Number.isInteger(replicas) && replicas >= 0) {
-                invokeScaleKubernetes(kindName, replicas);
+                invokeScaleKubernetes(kindName, replicas, namespace);
             } else {
                 vscode.window.showErrorMessage('Replica count must be a non-negative integer');
             }
@@ -656,127 +788,404 @@ function promptScaleKubernetes(kindName : string) {
     });
 }
 
-function invokeScaleKubernetes(kindName : string, replicas : number) {
-    kubectl.invoke(`scale --replicas=${replicas} ${kindName}`);
+async function invokeScaleKubernetes(kindName : string, replicas : number, namespace? : string) {
+    if (await protectedContexts.confirmProtectedContext(`Scale ${kindName} to ${replicas} replicas`)) {
+        const namespaceArg = namespace ? ` --namespace ${namespace}` : '';
+        kubectl.invoke(`scale --replicas=${replicas} ${kindName}${namespaceArg}`);
+    }
+}
+
+// The workload chosen in the explorer, defined in the active editor, or picked by the user,
+// or undefined if the user cancels.
+function rolloutTarget(explorerNode : explorer.ResourceNode | undefined, descriptionVerb : string) : Promise<ResourceTarget | undefined> {
+    if (explorerNode) {
+        return Promise.resolve({ resourceId: explorerNode.resourceId, namespace: explorerNode.namespace });
+    }
+    return findResourceOrPrompt(kuberesources.rolloutKinds, descriptionVerb, {});
+}
+
+async function rolloutStatusKubernetes(explorerNode? : explorer.ResourceNode) {
+    const target = await rolloutTarget(explorerNode, 'show the rollout status of');
+    if (!target) {
+        return;
+    }
+    await showRolloutStatus(target);
+}
+
+async function showRolloutStatus(target : ResourceTarget) {
+    const result = await rollout.watchRolloutStatus(kubectl, target.resourceId, target.namespace);
+    if (result.succeeded) {
+        vscode.window.showInformationMessage(result.message);
+    } else if (!result.cancelled) {
+        vscode.window.showErrorMessage(`Rollout of ${target.resourceId} failed: ${result.message}`);
+    }
+}
+
+interface RevisionItem extends vscode.QuickPickItem {
+    readonly revision? : number;
+}
+
+async function pickRevision(target : ResourceTarget, placeHolder : string, options : { includePrevious? : boolean, exclude? : number } = {}) : Promise<RevisionItem | undefined> {
+    const history = await rollout.getRolloutHistory(kubectl, target.resourceId, target.namespace);
+    if (isShellResult(history)) {
+        vscode.window.showErrorMessage(`Failed to get the rollout history of ${target.resourceId}: ${history.stderr}`);
+        return undefined;
+    }
+    const current = history.length > 0 ? history[history.length - 1].revision : undefined;
+    const items : RevisionItem[] = history.reverse()
+        .filter((r) => r.revision !== options.exclude)
+        .map((r) => ({
+            label: `Revision ${r.revision}`,
+            description: r.revision === current ? '(current)' : '',
+            detail: r.changeCause || 'No change cause recorded',
+            revision: r.revision
+        }));
+    if (options.includePrevious) {
+        items.unshift({ label: 'Previous revision', description: '', detail: 'Undo the most recent rollout' });
+    }
+    return vscode.window.showQuickPick(items, { placeHolder: placeHolder, matchOnDetail: true });
+}
+
+async function rolloutHistoryKubernetes(explorerNode? : explorer.ResourceNode) {
+    const target = await rolloutTarget(explorerNode, 'show the rollout history of');
+    if (!target) {
+        return;
+    }
+    const picked = await pickRevision(target, `Revisions of ${target.resourceId}`);
+    if (!picked || picked.revision === undefined) {
+        return;
+    }
+    const compare = 'Compare with another revision...';
+    const rollBack = 'Roll back to this revision';
+    const action = await vscode.window.showQuickPick([compare, rollBack], { placeHolder: `Revision ${picked.revision} of ${target.resourceId}` });
+    if (action === compare) {
+        const other = await pickRevision(target, `Compare revision ${picked.revision} of ${target.resourceId} with`, { exclude: picked.revision });
+        if (other && other.revision !== undefined) {
+            await diffRevisions(target, Math.min(picked.revision, other.revision), Math.max(picked.revision, other.revision));
+        }
+    } else if (action === rollBack) {
+        await undoRollout(target, picked.revision);
+    }
+}
+
+async function diffRevisions(target : ResourceTarget, older : number, newer : number) {
+    const files : string[] = [];
+    for (const revision of [older, newer]) {
+        const template = await rollout.getRevisionTemplate(kubectl, target.resourceId, target.namespace, revision);
+        if (isShellResult(template)) {
+            vscode.window.showErrorMessage(`Failed to get revision ${revision} of ${target.resourceId}: ${template.stderr}`);
+            return;
+        }
+        const tmpobj = tmp.fileSync({ prefix: `revision-${revision}-${target.resourceId.replace(/[^a-zA-Z0-9.-]/g, '-')}-`, postfix: '.txt' });
+        fs.writeFileSync(tmpobj.name, template);
+        files.push(tmpobj.name);
+    }
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        vscode.Uri.file(files[0]),
+        vscode.Uri.file(files[1]),
+        `${target.resourceId} (revision ${older} ↔ revision ${newer})`);
+}
+
+async function rolloutUndoKubernetes(explorerNode? : explorer.ResourceNode) {
+    const target = await rolloutTarget(explorerNode, 'roll back');
+    if (!target) {
+        return;
+    }
+    const picked = await pickRevision(target, `Roll ${target.resourceId} back to`, { includePrevious: true });
+    if (picked) {
+        await undoRollout(target, picked.revision);
+    }
+}
+
+async function undoRollout(target : ResourceTarget, revision : number | undefined) {
+    const description = revision === undefined ? 'the previous revision' : `revision ${revision}`;
+    if (!(await protectedContexts.confirmProtectedContext(`Roll ${target.resourceId} back to ${description}`))) {
+        return;
+    }
+    const revisionArg = revision === undefined ? '' : ` --to-revision=${revision}`;
+    await invokeRolloutCommand(`undo ${target.resourceId}${revisionArg}`, target);
+}
+
+async function rolloutPauseKubernetes(explorerNode? : explorer.ResourceNode) {
+    const target = await rolloutTarget(explorerNode, 'pause the rollout of');
+    if (!target) {
+        return;
+    }
+    if (await protectedContexts.confirmProtectedContext(`Pause the rollout of ${target.resourceId}`)) {
+        await invokeRolloutCommand(`pause ${target.resourceId}`, target);
+    }
+}
+
+async function rolloutResumeKubernetes(explorerNode? : explorer.ResourceNode) {
+    const target = await rolloutTarget(explorerNode, 'resume the rollout of');
+    if (!target) {
+        return;
+    }
+    if (await protectedContexts.confirmProtectedContext(`Resume the rollout of ${target.resourceId}`)) {
+        await invokeRolloutCommand(`resume ${target.resourceId}`, target);
+    }
+}
+
+async function rolloutRestartKubernetes(explorerNode? : explorer.ResourceNode) {
+    const target = await rolloutTarget(explorerNode, 'restart');
+    if (!target) {
+        return;
+    }
+    if (await protectedContexts.confirmProtectedContext(`Restart ${target.resourceId}`)) {
+        if (await invokeRolloutCommand(`restart ${target.resourceId}`, target)) {
+            await showRolloutStatus(target);
+        }
+    }
+}
+
+async function setImageKubernetes(explorerNode? : explorer.ResourceNode) {
+    const target = await rolloutTarget(explorerNode, 'update the image of');
+    if (!target) {
+        return;
+    }
+    const containers = await rollout.getWorkloadContainers(kubectl, target.resourceId, target.namespace);
+    if (isShellResult(containers)) {
+        vscode.window.showErrorMessage(`Failed to get the containers of ${target.resourceId}: ${containers.stderr}`);
+        return;
+    }
+    const container = await pickContainerToUpdate(target, containers);
+    if (!container) {
+        return;
+    }
+
+    const builtImage = await workspaceImage();
+    const image = await vscode.window.showInputBox({
+        prompt: `Image for container ${container.name} of ${target.resourceId}`,
+        placeHolder: container.image,
+        value: builtImage || container.image
+    });
+    if (!image || image === container.image) {
+        return;
+    }
+    if (!(await protectedContexts.confirmProtectedContext(`Update ${container.name} in ${target.resourceId} to ${image}`))) {
+        return;
+    }
+
+    const sr = await kubectl.invokeAsyncWithProgress(`set image ${target.resourceId} ${container.name}=${image}${namespaceArg(target.namespace)}`, `Updating ${target.resourceId}...`);
+    if (sr.code !== 0) {
+        vscode.window.showErrorMessage(`Failed to update the image of ${target.resourceId}: ${sr.stderr}`);
+        return;
+    }
+    refreshExplorer();
+    await showRolloutStatus(target);
+}
+
+async function pickContainerToUpdate(target : ResourceTarget, containers : rollout.WorkloadContainer[]) : Promise<rollout.WorkloadContainer | undefined> {
+    if (containers.length <= 1) {
+        return containers[0];
+    }
+    const items = containers.map((c) => ({
+        label: c.name,
+        description: c.init ? 'init container' : '',
+        detail: c.image,
+        container: c
+    }));
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: `Container of ${target.resourceId} to update` });
+    return picked ? picked.container : undefined;
 }
 
-function runKubernetes() {
-    buildPushThenExec((name, image) => {
-        kubectl.invoke(`run ${name} --image=${image}`);
+// The image which buildPushThenExec builds from the open folder, if there is one.
+function workspaceImage() : Promise<string | undefined> {
+    if (vscode.workspace.rootPath === undefined) {
+        return Promise.resolve(undefined);
+    }
+    return new Promise<string>((resolve) => {
+        findNameAndImage().then((name, image) => resolve(image));
     });
 }
 
-function buildPushThenExec(fn) {
-    findNameAndImage().then((name, image) => {
-        shell.exec(`docker build -t ${image} .`).then(({code, stdout, stderr}) => {
-            if (code === 0) {
-                vscode.window.showInformationMessage(image + ' built.');
-                shell.exec('docker push ' + image).then(({code, stdout, stderr}) => {
-                    if (code === 0) {
-                        vscode.window.showInformationMessage(image + ' pushed.');
-                        fn(name, image);
-                    } else {
-                        vscode.window.showErrorMessage('Image push failed. See Output window for details.');
-                        kubeChannel.showOutput(stderr, 'Docker');
-                        console.log(stderr);
-                    }
-                });
-            } else {
-                vscode.window.showErrorMessage('Image build failed. See Output window for details.');
-                kubeChannel.showOutput(stderr, 'Docker');
-                console.log(stderr);
-            }
-        });
+async function invokeRolloutCommand(command : string, target : ResourceTarget) : Promise<boolean> {
+    const sr = await kubectl.invokeAsyncWithProgress(`rollout ${command}${namespaceArg(target.namespace)}`, `Running rollout ${command}...`);
+    if (sr.code !== 0) {
+        vscode.window.showErrorMessage(`Rollout ${command} failed: ${sr.stderr}`);
+        return false;
+    }
+    vscode.window.showInformationMessage(sr.stdout.trim());
+    refreshExplorer();
+    return true;
+}
+
+async function runKubernetes() {
+    if (!(await protectedContexts.confirmProtectedContext('Run this workspace\'s app'))) {
+        return;
+    }
+    buildPushThenExec((name, image, builder) => {
+        kubectl.invoke(`run ${name} --image=${image}${imageBuilder.runArgs(builder)}`);
     });
 }
 
-function findKindName() {
+// Builds the workspace's image with the image builder chosen in settings, then pushes it
+// or loads it into the cluster, and calls fn with the app name, the image and the builder.
+function buildPushThenExec(fn : (name : string, image : string, builder : imageBuilder.ImageBuilder) => void) {
+    findNameAndImage().then(async (name, image) => {
+        const builder = imageBuilder.imageBuilder();
+        const built = await shell.exec(builder.buildCommand(image, imageBuilder.buildOptions()));
+        if (!built) {
+            return;  // shell.exec has reported the error
+        }
+        if (built.code !== 0) {
+            vscode.window.showErrorMessage('Image build failed. See Output window for details.');
+            kubeChannel.showOutput(built.stderr, builder.displayName);
+            return;
+        }
+        vscode.window.showInformationMessage(image + ' built.');
+
+        const published = await shell.exec(builder.publishCommand(image, await protectedContexts.currentContextName()));
+        if (!published) {
+            return;  // shell.exec has reported the error
+        }
+        if (published.code !== 0) {
+            vscode.window.showErrorMessage(`${image} could not be ${builder.published}. See Output window for details.`);
+            kubeChannel.showOutput(published.stderr, builder.displayName);
+            return;
+        }
+        vscode.window.showInformationMessage(`${image} ${builder.published}.`);
+        fn(name, image, builder);
+    });
+}
+
+// Finds the resource defined in the active editor.  If the editor contains several
+// objects, this is the one under the cursor, or the user chooses if the cursor is not
+// in an object or there is a selection which covers several.
+async function findManifestObject(predicate : (obj : any) => boolean = (_) => true) : Promise<manifest.ManifestObject | null> {
     let editor = vscode.window.activeTextEditor;
     if (!editor) {
         vscode.window.showErrorMessage('No active editor!');
         return null; // No open text editor
     }
-    let text = editor.document.getText();
-    return findKindNameForText(text);
-}
 
-function findKindNameForText(text) {
+    const document = editor.document;
+    const hasSelection = !editor.selection.isEmpty;
+    const text = hasSelection ? document.getText(editor.selection) : document.getText();
+
+    let objects : manifest.ManifestObject[];
     try {
-        let obj = yaml.safeLoad(text);
-        if (!obj || !obj.kind) {
-            return null;
-        }
-        if (!obj.metadata || !obj.metadata.name) {
-            return null;
-        }
-        return obj.kind.toLowerCase() + '/' + obj.metadata.name;
+        objects = manifest.parseManifest(text).filter((o) => predicate(o.object));
     } catch (ex) {
         console.log(ex);
         return null;
     }
+
+    if (objects.length === 0) {
+        return null;
+    }
+    if (objects.length === 1) {
+        return objects[0];
+    }
+    if (!hasSelection) {
+        const underCursor = manifest.objectAt(objects, document.offsetAt(editor.selection.active));
+        if (underCursor) {
+            return underCursor;
+        }
+    }
+
+    const baseOffset = hasSelection ? document.offsetAt(editor.selection.start) : 0;
+    const items = objects.map((o) => ({
+        label: o.resourceId,
+        description: `line ${document.positionAt(baseOffset + o.startOffset).line + 1}`,
+        obj: o
+    }));
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: 'The document defines several resources. Select one' });
+    return selected ? selected.obj : null;
 }
 
-function findKindNameOrPrompt(resourceKinds : kuberesources.ResourceKind[], descriptionVerb, opts, handler) {
-    let kindName = findKindName();
-    if (kindName === null) {
-        promptKindName(resourceKinds, descriptionVerb, opts, handler);
-    } else {
-        handler(kindName);
+// Finds the resource defined in the active editor, with the namespace given in its manifest,
+// or else asks the user for one.  Calls handler only if a resource is chosen.
+async function findKindNameOrPrompt(resourceKinds : KindSource, descriptionVerb, opts, handler : (kindName : string, namespace? : string) => void) {
+    const target = await findResourceOrPrompt(resourceKinds, descriptionVerb, opts);
+    if (target) {
+        handler(target.resourceId, target.namespace);
     }
 }
 
-function promptKindName(resourceKinds : kuberesources.ResourceKind[], descriptionVerb, opts, handler) {
-    vscode.window.showInputBox({ prompt: "What resource do you want to " + descriptionVerb + "?", placeHolder: 'Empty string to be prompted' }).then((resource) => {
-        if (resource === '') {
-            quickPickKindName(resourceKinds, opts, handler);
-        } else if (resource === undefined) {
-            return;
-        } else {
-            handler(resource);
+interface ResourceTarget {
+    readonly resourceId : string;
+    readonly namespace? : string;
+}
+
+async function findResourceOrPrompt(resourceKinds : KindSource, descriptionVerb, opts) : Promise<ResourceTarget | undefined> {
+    const obj = await findManifestObject();
+    if (obj) {
+        return { resourceId: obj.resourceId, namespace: obj.object.metadata.namespace };
+    }
+    const kindName = await pickKindName(resourceKinds, descriptionVerb, opts);
+    return kindName ? { resourceId: kindName } : undefined;
+}
+
+function promptKindName(resourceKinds : KindSource, descriptionVerb, opts, handler) {
+    pickKindName(resourceKinds, descriptionVerb, opts).then((kindName) => {
+        if (kindName) {
+            handler(kindName);
         }
     });
 }
 
-function quickPickKindName(resourceKinds : kuberesources.ResourceKind[], opts, handler) {
-    vscode.window.showQuickPick(resourceKinds).then((resourceKind) => {
-        if (resourceKind) {
-            let kind = resourceKind.abbreviation;
-            kubectl.invoke("get " + kind, (code, stdout, stderr) => {
-                if (code === 0) {
-                    let names = parseNamesFromKubectlLines(stdout);
-                    if (names.length > 0) {
-                        if (opts && opts.nameOptional) {
-                            names.push('(all)');
-                            vscode.window.showQuickPick(names).then((name) => {
-                                if (name) {
-                                    let kindName;
-                                    if (name === '(all)') {
-                                        kindName = kind;
-                                    } else {
-                                        kindName = kind + '/' + name;
-                                    }
-                                    handler(kindName);
-                                }
-                            });
-                        } else {
-                            vscode.window.showQuickPick(names).then((name) => {
-                                if (name) {
-                                    let kindName = kind + '/' + name;
-                                    handler(kindName);
-                                }
-                            });
-                        }
-                    } else {
-                        vscode.window.showInformationMessage("No resources of type " + resourceKind.displayName + " in cluster");
-                    }
-                } else {
-                    vscode.window.showErrorMessage(stderr);
-                }
-            });
+// Asks for a resource, resolving to undefined if the user cancels.
+async function pickKindName(resourceKinds : KindSource, descriptionVerb, opts) : Promise<string | undefined> {
+    const resource = await vscode.window.showInputBox({ prompt: "What resource do you want to " + descriptionVerb + "?", placeHolder: 'Empty string to be prompted' });
+    if (resource === '') {
+        return quickPickKind(resourceKinds, opts);
+    }
+    return resource;
+}
+
+// The kinds to offer in a quick pick: either a fixed list, or a function to get the list
+// from the cluster only if the quick pick is needed.
+type KindSource = kuberesources.ResourceKind[] | (() => Promise<kuberesources.ResourceKind[]>);
+
+/**
+ * Gets every kind the cluster serves, including custom resources.  If the cluster can't
+ * be asked, falls back to the common kinds.
+ */
+async function allResourceKinds() : Promise<kuberesources.ResourceKind[]> {
+    const kinds = await kubectlUtils.getResourceKinds(kubectl);
+    if (isShellResult(kinds) || kinds.length === 0) {
+        return kuberesources.commonKinds;
+    }
+    return kinds;
+}
+
+function quickPickKindName(resourceKinds : KindSource, opts, handler) {
+    quickPickKind(resourceKinds, opts).then((kindName) => {
+        if (kindName) {
+            handler(kindName);
         }
     });
 }
 
+async function quickPickKind(resourceKinds : KindSource, opts) : Promise<string | undefined> {
+    const kinds = Array.isArray(resourceKinds) ? resourceKinds : resourceKinds();
+    const resourceKind = await vscode.window.showQuickPick(kinds, { matchOnDescription: true });
+    if (!resourceKind) {
+        return undefined;
+    }
+    const kind = resourceKind.abbreviation;
+    const sr = await kubectl.invokeAsync("get " + kind);
+    if (sr.code !== 0) {
+        vscode.window.showErrorMessage(sr.stderr);
+        return undefined;
+    }
+    const names = parseNamesFromKubectlLines(sr.stdout);
+    if (names.length === 0) {
+        vscode.window.showInformationMessage("No resources of type " + resourceKind.displayName + " in cluster");
+        return undefined;
+    }
+    if (opts && opts.nameOptional) {
+        names.push('(all)');
+    }
+    const name = await vscode.window.showQuickPick(names);
+    if (!name) {
+        return undefined;
+    }
+    return name === '(all)' ? kind : kind + '/' + name;
+}
+
 function containsName(kindName) {
     if (typeof kindName === 'string' || kindName instanceof String) {
         return kindName.indexOf('/') > 0;
@@ -801,27 +1210,20 @@ function parseName(line) {
     return line.split(' ')[0];
 }
 
-function findPod(callback) {
+async function findPod(callback) {
     let editor = vscode.window.activeTextEditor;
     if (!editor) {
         vscode.window.showErrorMessage('No active editor!');
         return null; // No open text editor
     }
 
-    let text = editor.document.getText();
-    try {
-        let obj = yaml.safeLoad(text);
-        if (obj.kind !== 'Pod') {
-            return;
-        }
-
+    const pod = await findManifestObject((obj) => obj.kind === 'Pod');
+    if (pod) {
         callback({
-            name: obj.metadata.name,
-            namespace: obj.metadata.namespace
+            name: pod.object.metadata.name,
+            namespace: pod.object.metadata.namespace
         });
         return;
-    } catch (ex) {
-        // pass
     }
 
     quickPickKindName(
@@ -876,14 +1278,114 @@ function selectPodForApp(callback) {
     });
 }
 
-function logsKubernetes(explorerNode? : explorer.ResourceNode) {
-    if (explorerNode) {
-        getLogsCore(explorerNode.id);  // TODO: we don't know if there is a namespace in this case - is that a problem?
+function logsKubernetes(explorerNode? : explorer.ResourceNode | explorer.ContainerNode) {
+    if (explorer.isContainerNode(explorerNode)) {
+        getLogsCore(explorerNode.podName, explorerNode.namespace, explorerNode.containerName);
+    } else if (explorerNode) {
+        getLogsCore(explorerNode.id, explorerNode.namespace);
     } else {
         findPod(getLogs);
     }
 }
 
+async function followLogsKubernetes(explorerNode? : explorer.ResourceNode | explorer.ContainerNode) {
+    if (explorer.isContainerNode(explorerNode)) {
+        await followLogsCore(explorerNode.podName, explorerNode.namespace, explorerNode.containerName);
+    } else if (explorerNode) {
+        await followLogsCore(explorerNode.id, explorerNode.namespace);
+    } else {
+        findPod((pod) => {
+            if (!pod) {
+                vscode.window.showErrorMessage('Can\'t find a pod!');
+                return;
+            }
+            followLogsCore(pod.name, pod.namespace);
+        });
+    }
+}
+
+async function followLogsCore(podName : string, podNamespace? : string, containerName? : string) {
+    if (!containerName) {
+        containerName = await selectContainerName(podName, podNamespace, { includeInit: true });
+        if (!containerName) {
+            return;
+        }
+    }
+    const options = await promptLogsOptions(containerName);
+    if (options) {
+        await logsProvider.show(podName, podNamespace, Object.assign({ container: containerName }, options));
+    }
+}
+
+function workloadLogsKubernetes(explorerNode? : explorer.ResourceNode) {
+    if (explorerNode) {
+        workloadLogsCore(explorerNode.resourceId, explorerNode.namespace);
+    } else {
+        findKindNameOrPrompt(kuberesources.podSelectingKinds, 'show logs for', {}, (kindName, namespace) => {
+            workloadLogsCore(kindName, namespace);
+        });
+    }
+}
+
+async function workloadLogsCore(kindName : string, namespace? : string) {
+    const resource = await kubectlUtils.getResource(kubectl, kindName, namespace);
+    if (isShellResult(resource)) {
+        vscode.window.showErrorMessage(`Failed to get ${kindName}: ${resource.stderr}`);
+        return;
+    }
+    const labelSelector = kubectlUtils.podSelector(resource);
+    if (!labelSelector) {
+        vscode.window.showErrorMessage(`${kindName} does not have a pod selector.`);
+        return;
+    }
+    const options = await promptLogsOptions(kindName);
+    if (options) {
+        await logsProvider.showWorkload({ kindName: kindName, namespace: namespace, labelSelector: labelSelector }, options);
+    }
+}
+
+interface LogsRangeItem extends vscode.QuickPickItem {
+    readonly since? : string;
+    readonly tail? : number;
+}
+
+interface LogsFlagItem extends vscode.QuickPickItem {
+    readonly flag : 'follow' | 'timestamps' | 'previous';
+}
+
+async function promptLogsOptions(logsSource : string) : Promise<LogsOptions | undefined> {
+    const rangeItems : LogsRangeItem[] = [
+        { label: 'Last 100 lines', description: '--tail=100', tail: 100 },
+        { label: 'Last 1000 lines', description: '--tail=1000', tail: 1000 },
+        { label: 'Last 5 minutes', description: '--since=5m', since: '5m' },
+        { label: 'Last hour', description: '--since=1h', since: '1h' },
+        { label: 'All', description: 'Entire log' },
+    ];
+    const range = await vscode.window.showQuickPick(rangeItems, { placeHolder: `Which logs do you want to see for ${logsSource}?` });
+    if (!range) {
+        return undefined;
+    }
+
+    const flagItems : LogsFlagItem[] = [
+        { label: 'Follow', description: 'Keep streaming new log lines (-f)', flag: 'follow', picked: true },
+        { label: 'Show timestamps', description: '--timestamps', flag: 'timestamps' },
+        { label: 'Previous instance', description: 'Logs of the previous, terminated container (--previous)', flag: 'previous' },
+    ];
+    const flags = await vscode.window.showQuickPick(flagItems, { placeHolder: 'Log options', canPickMany: true });
+    if (!flags) {
+        return undefined;
+    }
+    const hasFlag = (flag : string) => flags.some((f) => f.flag === flag);
+
+    return {
+        since: range.since,
+        tail: range.tail,
+        follow: hasFlag('follow') && !hasFlag('previous'),
+        timestamps: hasFlag('timestamps'),
+        previous: hasFlag('previous')
+    };
+}
+
 function getLogs(pod) {
     if (!pod) {
         vscode.window.showErrorMessage('Can\'t find a pod!');
@@ -893,16 +1395,50 @@ function getLogs(pod) {
 
 }
 
-function getLogsCore(podName : string, podNamespace? : string) {
-    // TODO: Support multiple containers here!
-    let cmd = ' logs ' + podName;
+async function getLogsCore(podName : string, podNamespace? : string, containerName? : string) {
+    if (!containerName) {
+        containerName = await selectContainerName(podName, podNamespace, { includeInit: true });
+        if (!containerName) {
+            return;
+        }
+    }
+    let cmd = ' logs ' + podName + ' -c ' + containerName;
     if (podNamespace && podNamespace.length > 0) {
         cmd += ' --namespace=' + podNamespace;
     }
-    const fn = kubectlOutputTo(podName + '-logs');
+    const fn = kubectlOutputTo(`${podName}-${containerName}-logs`);
     kubectl.invokeWithProgress(cmd, 'Loading logs...', fn);
 }
 
+interface SelectContainerOptions {
+    readonly includeInit : boolean;
+}
+
+// Returns the name of the pod's only container, or prompts for one if the pod
+// has several.  Returns undefined if the pod can't be read or the user cancels.
+async function selectContainerName(podName : string, namespace : string | undefined, opts : SelectContainerOptions) : Promise<string | undefined> {
+    const pod = await kubectlUtils.getResource(kubectl, `pod/${podName}`, namespace);
+    if (isShellResult(pod)) {
+        vscode.window.showErrorMessage(`Failed to get pod '${podName}': ${pod.stderr}`);
+        return undefined;
+    }
+    const containers = kubectlUtils.getContainers(pod).filter((c) => opts.includeInit || !c.init);
+    if (containers.length === 0) {
+        vscode.window.showErrorMessage(`Pod '${podName}' has no containers.`);
+        return undefined;
+    }
+    if (containers.length === 1) {
+        return containers[0].name;
+    }
+    const items = containers.map((c) => ({ label: c.name, description: c.init ? `${c.image} (init)` : c.image }));
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: `Select a container in ${podName}` });
+    return selected ? selected.label : undefined;
+}
+
+function namespaceArg(namespace? : string) : string {
+    return namespace ? ` -n ${namespace}` : '';
+}
+
 function kubectlOutputTo(name : string) {
     return (code, stdout, stderr) => kubectlOutput(code, stdout, stderr, name);
 }
@@ -915,34 +1451,90 @@ function kubectlOutput(result, stdout, stderr, name) {
     kubeChannel.showOutput(stdout, name);
 }
 
-function getPorts() {
-    let file = vscode.workspace.rootPath + '/Dockerfile';
+function portForwardKubernetes(explorerNode? : explorer.ResourceNode) {
+    if (explorerNode) {
+        portForwardCore(explorerNode.resourceId, explorerNode.namespace);
+    } else {
+        findKindNameOrPrompt(kuberesources.portForwardableKinds, 'port forward to', {}, (kindName, namespace) => {
+            portForwardCore(kindName, namespace);
+        });
+    }
+}
+
+async function portForwardCore(kindName : string, namespace? : string) {
+    const resource = await kubectlUtils.getResource(kubectl, kindName, namespace);
+    if (isShellResult(resource)) {
+        vscode.window.showErrorMessage(`Failed to get ${kindName}: ${resource.stderr}`);
+        return;
+    }
+
+    const dockerfilePorts = getPorts() || [];
+    const suggestedPorts = portforward.declaredPorts(resource).concat(dockerfilePorts)
+                                      .filter((p, i, ports) => ports.indexOf(p) === i);
+
+    const portsText = await vscode.window.showInputBox({
+        prompt: `Ports to forward to ${kindName}, as port or localPort:targetPort (separate multiple ports with spaces)`,
+        value: suggestedPorts.join(' '),
+        validateInput: (text) => portforward.parsePortMappings(text) ? null : 'Enter ports as port or localPort:targetPort, e.g. 8080 or 9000:80'
+    });
+    if (!portsText) {
+        return;
+    }
+
+    const session = await portForwards.start(kindName, namespace, portforward.parsePortMappings(portsText));
+    if (session) {
+        vscode.window.showInformationMessage(`Forwarding ${portforward.describeSession(session)}`);
+    }
+}
+
+async function stopPortForwardKubernetes() {
+    const sessions = portForwards.sessions();
+    if (sessions.length === 0) {
+        vscode.window.showInformationMessage('No port forwards are running.');
+        return;
+    }
+    const items = sessions.map((s) => ({ label: portforward.describeSession(s), session: s }));
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: 'Select a port forward to stop' });
+    if (selected) {
+        portForwards.stop(selected.session);
+    }
+}
+
+function getPorts() : number[] {
+    const dockerfile = readWorkspaceDockerfile();
+    return dockerfile ? dockerfile.exposedPorts : null;
+}
+
+function readWorkspaceDockerfile() : docker.Dockerfile | undefined {
+    if (!vscode.workspace.rootPath) {
+        return undefined;
+    }
+    let file = path.resolve(vscode.workspace.rootPath, imageBuilder.buildOptions().dockerfile);
     if (!fs.existsSync(file)) {
-        return null;
+        return undefined;
     }
     try {
         let data = fs.readFileSync(file, 'utf-8');
-        let obj = dockerfileParse(data);
-        return obj.expose;
+        return docker.parseDockerfile(data);
     } catch (ex) {
         console.log(ex);
-        return null;
+        return undefined;
     }
 }
 
 function describeKubernetes(explorerNode? : explorer.ResourceNode) {
     if (explorerNode) {
-        describeKubernetesCore(explorerNode.resourceId);
+        describeKubernetesCore(explorerNode.resourceId, explorerNode.namespace);
     } else {
-        findKindNameOrPrompt(kuberesources.commonKinds, 'describe', { nameOptional: true }, (value) => {
-            describeKubernetesCore(value);
+        findKindNameOrPrompt(allResourceKinds, 'describe', { nameOptional: true }, (value, namespace) => {
+            describeKubernetesCore(value, namespace);
         });
     }
 }
 
-function describeKubernetesCore(kindName : string) {
+function describeKubernetesCore(kindName : string, namespace? : string) {
     const fn = kubectlOutputTo(kindName + "-describe");
-    kubectl.invokeWithProgress(' describe ' + kindName, `Describing ${kindName}...`, fn);
+    kubectl.invokeWithProgress(' describe ' + kindName + namespaceArg(namespace), `Describing ${kindName}...`, fn);
 }
 
 function selectContainerForPod(pod, callback) {
@@ -977,11 +1569,18 @@ function execKubernetes() {
     execKubernetesCore(false);
 }
 
-async function terminalKubernetes(explorerNode? : explorer.ResourceNode) {
+async function terminalKubernetes(explorerNode? : explorer.ResourceNode | explorer.ContainerNode) {
     if (explorerNode) {
+        const podName = explorer.isContainerNode(explorerNode) ? explorerNode.podName : explorerNode.id;
+        const containerName = explorer.isContainerNode(explorerNode) ?
+            explorerNode.containerName :
+            await selectContainerName(podName, explorerNode.namespace, { includeInit: false });
+        if (!containerName) {
+            return;
+        }
         // For those images (e.g. built from Busybox) where bash may not be installed by default, use sh instead.
-        const isBash = await isBashOnPod(explorerNode.id);
-        execTerminalOnPod(explorerNode.id, isBash ? 'bash' : 'sh');
+        const isBash = await isBashOnPod(podName, explorerNode.namespace, containerName);
+        execTerminalOnPod(podName, isBash ? 'bash' : 'sh', explorerNode.namespace, containerName);
     } else {
         execKubernetesCore(true);
     }
@@ -1018,14 +1617,24 @@ function execKubernetesCore(isTerminal) {
     });
 }
 
-function execTerminalOnPod(podName : string, terminalCmd : string) {
-    const terminalExecCmd : string[] = ['exec', '-it', podName, '--', terminalCmd];
-    const term = vscode.window.createTerminal(`${terminalCmd} on ${podName}`, kubectl.path(), terminalExecCmd);
+function execTerminalOnPod(podName : string, terminalCmd : string, namespace? : string, containerName? : string) {
+    const namespaceArgs : string[] = namespace ? ['-n', namespace] : [];
+    const containerArgs : string[] = containerName ? ['-c', containerName] : [];
+    const terminalExecCmd : string[] = ['exec', '-it', podName, ...namespaceArgs, ...containerArgs, '--', terminalCmd];
+    const terminalName = containerName ? `${terminalCmd} on ${podName}/${containerName}` : `${terminalCmd} on ${podName}`;
+    const kubeconfigEnv = kubeconfig.kubeconfigEnv();
+    const term = vscode.window.createTerminal({
+        name: terminalName,
+        shellPath: kubectl.path(),
+        shellArgs: terminalExecCmd,
+        env: kubeconfigEnv ? { KUBECONFIG: kubeconfigEnv } : undefined
+    });
     term.show();
 }
 
-async function isBashOnPod(podName : string): Promise<boolean> {
-    const result = await kubectl.invokeAsync(`exec ${podName} -- ls -la /bin/bash`);
+async function isBashOnPod(podName : string, namespace? : string, containerName? : string): Promise<boolean> {
+    const containerArg = containerName ? ` -c ${containerName}` : '';
+    const result = await kubectl.invokeAsync(`exec ${podName}${namespaceArg(namespace)}${containerArg} -- ls -la /bin/bash`);
     return !result.code;
 }
 
@@ -1070,16 +1679,23 @@ const deleteKubernetes = async (explorerNode? : explorer.ResourceNode) => {
         if (answer.isCloseAffordance) {
             return;
         }
-        const shellResult = await kubectl.invokeAsyncWithProgress(`delete ${explorerNode.resourceId}`, `Deleting ${explorerNode.resourceId}...`);
+        if (!(await protectedContexts.confirmProtectedContext(`Delete ${explorerNode.resourceId}`))) {
+            return;
+        }
+        const shellResult = await kubectl.invokeAsyncWithProgress(`delete ${explorerNode.resourceId}${namespaceArg(explorerNode.namespace)}`, `Deleting ${explorerNode.resourceId}...`);
         await reportDeleteResult(explorerNode.resourceId, shellResult);
     } else {
-        findKindNameOrPrompt(kuberesources.commonKinds, 'delete', { nameOptional: true }, async (kindName) => {
+        findKindNameOrPrompt(allResourceKinds, 'delete', { nameOptional: true }, async (kindName, namespace) => {
             if (kindName) {
                 let commandArgs = kindName;
                 if (!containsName(kindName)) {
                     commandArgs = kindName + " --all";
                 }
-                const shellResult = await kubectl.invokeAsyncWithProgress(`delete ${commandArgs}`, `Deleting ${kindName}...`);
+                const action = containsName(kindName) ? `Delete ${kindName}` : `Delete all ${kindName}`;
+                if (!(await protectedContexts.confirmProtectedContext(action))) {
+                    return;
+                }
+                const shellResult = await kubectl.invokeAsyncWithProgress(`delete ${commandArgs}${namespaceArg(namespace)}`, `Deleting ${kindName}...`);
                 await reportDeleteResult(kindName, shellResult);
             }
         });
@@ -1091,91 +1707,132 @@ const applyKubernetes = () => {
         vscode.window.showInformationMessage(
             'Do you wish to apply this change?',
             'Apply'
-        ).then((result) => {
+        ).then(async (result) => {
             if (result !== 'Apply') {
                 return;
             }
+            if (!(await protectedContexts.confirmProtectedContext('Apply this change'))) {
+                return;
+            }
 
             maybeRunKubernetesCommandForActiveWindow('apply -f');
         });
     });
 };
 
-const handleError = (err) => {
-    if (err) {
-        vscode.window.showErrorMessage(err);
-    }
-};
-
 const diffKubernetes = (callback) => {
     getTextForActiveWindow((data, file) => {
-        console.log(data, file);
-        let kindName = null;
-        let fileName = null;
-
-        if (data) {
-            kindName = findKindNameForText(data);
-            fileName = path.join(os.tmpdir(), 'local.json');
-            fs.writeFile(fileName, data, handleError);
-        } else if (file) {
-            kindName = findKindName();
-            fileName = file;
-        } else {
+        const text = data || (file ? fs.readFileSync(file, 'utf-8') : null);
+        if (!text) {
             vscode.window.showInformationMessage('Nothing to diff.');
             return;
         }
 
-        if (!kindName) {
-            vscode.window.showWarningMessage('Could not find a valid API object');
-            return;
-        }
-
-        kubectl.invoke(` get -o json ${kindName}`, (result, stdout, stderr) => {
-            if (result !== 0) {
-                vscode.window.showErrorMessage('Error running command: ' + stderr);
-                return;
+        const editor = vscode.window.activeTextEditor;
+        const format = diff.diffFormat(file, editor ? editor.document.languageId : undefined);
+        diffObjects(text, format).then((diffed) => {
+            if (diffed && callback) {
+                callback();
             }
-
-            let otherFile = path.join(os.tmpdir(), 'server.json');
-            fs.writeFile(otherFile, stdout, handleError);
-
-            vscode.commands.executeCommand(
-                'vscode.diff',
-                vscode.Uri.parse('file://' + otherFile),
-                vscode.Uri.parse('file://' + fileName)).then((result) => {
-                    console.log(result);
-                    if (!callback) {
-                        return;
-                    }
-
-                    callback();
-                });
         });
     });
 };
 
-const debugKubernetes = () => {
+// Shows a diff between the server and local versions of each object in a manifest,
+// one object at a time.  Resolves to false if the user stopped before the last diff.
+async function diffObjects(text : string, format : diff.DiffFormat) : Promise<boolean> {
+    let objects : any[];
+    try {
+        objects = manifest.parseManifest(text).map((o) => o.object);
+    } catch (ex) {
+        vscode.window.showErrorMessage(`Could not parse the document: ${ex.message}`);
+        return false;
+    }
+
+    if (objects.length === 0) {
+        vscode.window.showWarningMessage('Could not find a valid API object');
+        return false;
+    }
+
+    for (let i = 0; i < objects.length; ++i) {
+        const local = objects[i];
+        const resourceId = manifest.resourceId(local);
+        const sr = await kubectl.invokeAsync(`get -o json ${resourceId}${namespaceArg(local.metadata.namespace)}`);
+        let serverText : string;
+        if (sr.code === 0) {
+            serverText = diff.normalise(JSON.parse(sr.stdout), format);
+        } else if (sr.stderr.indexOf('NotFound') >= 0) {
+            serverText = '';  // show the whole object as an addition
+        } else {
+            vscode.window.showErrorMessage('Error running command: ' + sr.stderr);
+            return false;
+        }
+
+        const serverFile = diffTempFile('server', resourceId, format, serverText);
+        const localFile = diffTempFile('local', resourceId, format, diff.normalise(local, format));
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            vscode.Uri.file(serverFile),
+            vscode.Uri.file(localFile),
+            `${resourceId} (server ↔ local)`);
+
+        if (i < objects.length - 1) {
+            const next = await vscode.window.showInformationMessage(`Showing differences for ${resourceId} (${i + 1} of ${objects.length})`, 'Next');
+            if (next !== 'Next') {
+                return false;
+            }
+        }
+    }
+    return true;
+}
+
+function diffTempFile(side : string, resourceId : string, format : diff.DiffFormat, content : string) : string {
+    const tmpobj = tmp.fileSync({ prefix: `${side}-${resourceId.replace(/[^a-zA-Z0-9.-]/g, '-')}-`, postfix: `.${format}` });
+    fs.writeFileSync(tmpobj.name, content);
+    return tmpobj.name;
+}
+
+const debugKubernetes = async () => {
+    if (!(await protectedContexts.confirmProtectedContext('Deploy this workspace\'s app for debugging'))) {
+        return;
+    }
     buildPushThenExec(_debugInternal);
 };
 
-const _debugInternal = (name, image) => {
-    // TODO: optionalize/customize the '-debug'
-    // TODO: make this smarter.
-    vscode.window.showInputBox({
-        prompt: 'Debug command for your container:',
-        placeHolder: 'Example: node debug server.js' }
-    ).then((cmd) => {
-        if (!cmd) {
-            return;
-        }
+const _debugInternal = async (name, image, builder : imageBuilder.ImageBuilder) => {
+    const dockerfile = readWorkspaceDockerfile();
+    const detected = vscode.workspace.rootPath ? debugProviders.detectDebugProviders(fs, vscode.workspace.rootPath, dockerfile) : [];
+    const provider = await selectDebugProvider(detected, 'Select the runtime of the app to debug');
+    if (!provider) {
+        return;
+    }
 
-        _doDebug(name, image, cmd);
+    // TODO: optionalize/customize the '-debug'
+    const cmd = await vscode.window.showInputBox({
+        prompt: `Debug command for your container (${provider.displayName}):`,
+        value: provider.debugCommand(dockerfile)
     });
+    if (!cmd) {
+        return;
+    }
+
+    _doDebug(name, image, cmd, provider, dockerfile, builder);
 };
 
-const _doDebug = (name, image, cmd) => {
+// Uses the detected provider if there is exactly one, otherwise lets the user choose.
+async function selectDebugProvider(detected : debugProviders.DebugProvider[], placeHolder : string) : Promise<debugProviders.DebugProvider | undefined> {
+    if (detected.length === 1) {
+        return detected[0];
+    }
+    const candidates = detected.length > 0 ? detected : debugProviders.allDebugProviders();
+    const items = candidates.map((p) => ({ label: p.displayName, provider: p }));
+    const selected = await vscode.window.showQuickPick(items, { placeHolder: placeHolder });
+    return selected ? selected.provider : undefined;
+}
+
+const _doDebug = (name, image, cmd, provider : debugProviders.DebugProvider, dockerfile : docker.Dockerfile | undefined, builder : imageBuilder.ImageBuilder) => {
     const deploymentName = `${name}-debug`;
-    const runCmd = `run ${deploymentName} --image=${image} -i --attach=false -- ${cmd}`;
+    const runCmd = `run ${deploymentName} --image=${image}${imageBuilder.runArgs(builder)} -i --attach=false -- ${cmd}`;
     console.log(runCmd);
 
     kubectl.invoke(runCmd, (result, stdout, stderr) => {
@@ -1193,18 +1850,27 @@ const _doDebug = (name, image, cmd) => {
             let podName = podList.items[0].metadata.name;
             vscode.window.showInformationMessage('Debug pod running as: ' + podName);
 
-            waitForRunningPod(podName, () => {
-                kubectl.invoke(` port-forward ${podName} 5858:5858 8000:8000`);
+            waitForRunningPod(podName, async () => {
+                const debugPorts = provider.debugPorts();
+                const appPorts = (dockerfile ? dockerfile.exposedPorts : [])
+                    .filter((p) => !debugPorts.some((d) => d.targetPort === p))
+                    .map((p) => ({ localPort: p, targetPort: p }));
+                const ports = debugPorts.concat(appPorts);
+                if (ports.length > 0) {
+                    const session = await portForwards.start(`pod/${podName}`, undefined, ports);
+                    if (!session) {
+                        return;
+                    }
+                }
 
-                const debugConfiguration = {
-                    type: 'node',
-                    request: 'attach',
-                    name: 'Attach to Process',
-                    port: 5858,
+                const debugConfiguration = provider.debugConfiguration({
+                    podName: podName,
                     localRoot: vscode.workspace.rootPath,
-                    remoteRoot: '/'
-                };
-                
+                    remoteRoot: (dockerfile && dockerfile.workdir) || '/',
+                    kubectlPath: kubectl.path(),
+                    kubeconfig: kubeconfig.kubeconfigEnv()
+                });
+
                 vscode.debug.startDebugging(
                     undefined,
                     debugConfiguration
@@ -1237,6 +1903,88 @@ const _doDebug = (name, image, cmd) => {
     });
 };
 
+function attachDebuggerKubernetes(explorerNode? : explorer.ResourceNode | explorer.ContainerNode) {
+    if (explorer.isContainerNode(explorerNode)) {
+        attachDebuggerCore(explorerNode.podName, explorerNode.namespace, explorerNode.containerName);
+    } else if (explorerNode) {
+        attachDebuggerCore(explorerNode.id, explorerNode.namespace);
+    } else {
+        findPod((pod) => {
+            if (!pod) {
+                vscode.window.showErrorMessage('Can\'t find a pod!');
+                return;
+            }
+            attachDebuggerCore(pod.name, pod.namespace);
+        });
+    }
+}
+
+// Attaches to a pod which is already running, using its command line to work out the
+// runtime and debug port.  Unlike Kubernetes: Debug, this doesn't build or deploy anything.
+async function attachDebuggerCore(podName : string, namespace? : string, containerName? : string) {
+    if (!containerName) {
+        containerName = await selectContainerName(podName, namespace, { includeInit: false });
+        if (!containerName) {
+            return;
+        }
+    }
+
+    const pod = await kubectlUtils.getResource(kubectl, `pod/${podName}`, namespace);
+    if (isShellResult(pod)) {
+        vscode.window.showErrorMessage(`Failed to get pod '${podName}': ${pod.stderr}`);
+        return;
+    }
+    const containerSpec = ((pod.spec && pod.spec.containers) || []).find((c) => c.name === containerName);
+    if (!containerSpec) {
+        vscode.window.showErrorMessage(`Pod '${podName}' has no container '${containerName}'.`);
+        return;
+    }
+
+    const container = debugProviders.runningContainer(containerSpec);
+    const provider = await selectDebugProvider(debugProviders.detectContainerDebugProviders(container), `Select the runtime of ${containerName}`);
+    if (!provider) {
+        return;
+    }
+
+    let debugPort = provider.debugPortFromCommand(container.commandLine);
+    if (debugPort === undefined && provider.debugPorts().length > 0) {
+        const portText = await vscode.window.showInputBox({
+            prompt: `The command line of ${containerName} doesn't show a ${provider.displayName} debug agent. Port the debug agent is listening on:`,
+            value: String(provider.debugPorts()[0].targetPort),
+            validateInput: (text) => /^\d+$/.test(text) ? null : 'Enter a port number'
+        });
+        if (!portText) {
+            return;
+        }
+        debugPort = Number.parseInt(portText, 10);
+    }
+
+    if (debugPort !== undefined) {
+        const session = await portForwards.start(`pod/${podName}`, namespace, [ { localPort: debugPort, targetPort: debugPort } ]);
+        if (!session) {
+            return;
+        }
+    }
+
+    const dockerfile = readWorkspaceDockerfile();
+    const debugConfiguration = provider.debugConfiguration({
+        podName: podName,
+        namespace: namespace,
+        containerName: containerName,
+        localRoot: vscode.workspace.rootPath,
+        remoteRoot: containerSpec.workingDir || (dockerfile && dockerfile.workdir) || '/',
+        kubectlPath: kubectl.path(),
+        kubeconfig: kubeconfig.kubeconfigEnv(),
+        debugPort: debugPort
+    });
+
+    try {
+        await vscode.debug.startDebugging(undefined, debugConfiguration);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Failed to attach debugger to ${podName}: ${err.message}`);
+    }
+}
+
 const waitForRunningPod = (name, callback) => {
     kubectl.invoke(` get pods ${name} -o jsonpath --template="{.status.phase}"`,
         (result, stdout, stderr) => {
@@ -1281,10 +2029,13 @@ function removeDebugKubernetes() {
                 }
 
                 let toDelete = deployment ? ('deployment' + (service ? ' and service' : '')) : 'service';
-                vscode.window.showWarningMessage('This will delete ' + toDelete + ' ' + deploymentName, 'Delete').then((opt) => {
+                vscode.window.showWarningMessage('This will delete ' + toDelete + ' ' + deploymentName, 'Delete').then(async (opt) => {
                     if (opt !== 'Delete') {
                         return;
                     }
+                    if (!(await protectedContexts.confirmProtectedContext(`Delete ${toDelete} ${deploymentName}`))) {
+                        return;
+                    }
 
                     if (service) {
                         kubectl.invoke('delete service ' + deploymentName);
@@ -1321,19 +2072,100 @@ async function createClusterKubernetes(request? : WizardUIRequest) {
     }
 }
 
+async function useKubeconfigKubernetes() {
+    const current = kubeconfig.configuredKubeconfigPaths();
+    const defaultItem = { label: 'Default', description: 'Use the KUBECONFIG environment variable or ~/.kube/config' };
+    const chooseItem = { label: 'Choose Files...', description: 'Use one or more kubeconfig files, merged as for KUBECONFIG' };
+    const choice = await vscode.window.showQuickPick([defaultItem, chooseItem], {
+        placeHolder: current ? `Currently using ${current.join(', ')}` : 'Currently using the default kubeconfig'
+    });
+    if (!choice) {
+        return;
+    }
+
+    let paths : string[] | undefined = undefined;
+    if (choice === chooseItem) {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: true,
+            openLabel: 'Use Kubeconfig',
+            defaultUri: vscode.Uri.file(shell.combinePath(shell.home(), '.kube'))
+        });
+        if (!uris || uris.length === 0) {
+            return;
+        }
+        paths = uris.map((u) => u.fsPath);
+    }
+
+    const folder = kubeconfig.activeWorkspaceFolder();
+    let scopeFolder : vscode.WorkspaceFolder | undefined = undefined;
+    if (folder) {
+        const folderItem = { label: `Workspace folder ${folder.name}`, description: 'Only when working in this folder' };
+        const globalItem = { label: 'All workspaces', description: 'Unless a workspace folder chooses its own' };
+        const scope = await vscode.window.showQuickPick([folderItem, globalItem], { placeHolder: 'Where should this kubeconfig be used?' });
+        if (!scope) {
+            return;
+        }
+        scopeFolder = (scope === folderItem) ? folder : undefined;
+    }
+
+    await kubeconfig.setConfiguredKubeconfigPaths(paths, scopeFolder);
+    schemaPromise = null;
+    refreshExplorer();
+}
+
 async function useContextKubernetes(explorerNode: explorer.KubernetesObject) {
-    const targetContext = explorerNode.metadata.context;
+    await useContext(explorerNode.metadata.context);
+}
+
+async function useContext(targetContext: string) {
     const shellResult = await kubectl.invokeAsync(`config use-context ${targetContext}`);
     if (shellResult.code === 0) {
+        schemaPromise = null;
         refreshExplorer();
     } else {
         vscode.window.showErrorMessage(`Failed to set '${targetContext}' as current cluster: ${shellResult.stderr}`);
     }
 }
 
+interface SwitchItem extends vscode.QuickPickItem {
+    readonly context?: string;
+    readonly namespace?: string;
+}
+
+async function switchContextKubernetes() {
+    const kc = await kubeconfig.readKubectlConfig().catch((ex) => {
+        vscode.window.showErrorMessage(`Unable to read kubeconfig: ${ex.message || ex}`);
+        return null;
+    });
+    if (!kc) {
+        return;
+    }
+    const contextItems: SwitchItem[] = kubectlUtils.getClusters(kc).map((c) => ({
+        label: `$(server) ${c.context}`,
+        description: c.active ? 'current context' : 'context',
+        detail: `cluster ${c.name}, user ${c.user}`,
+        context: c.context
+    }));
+    const namespaceItems = kubectlUtils.getNamespaces(kubectl).then((namespaces) => namespaces.map((ns) => ({
+        label: `$(file-directory) ${ns.name}`,
+        description: ns.active ? 'current namespace' : 'namespace',
+        namespace: ns.name
+    })));
+    const items = namespaceItems.then((nsItems) => contextItems.concat(nsItems));
+    const choice = await vscode.window.showQuickPick(items, { placeHolder: 'Switch to a context, or to a namespace in the current context' });
+    if (!choice) {
+        return;
+    }
+    if (choice.context) {
+        await useContext(choice.context);
+    } else if (choice.namespace && await kubectlUtils.switchNamespace(kubectl, choice.namespace)) {
+        refreshExplorer();
+    }
+}
+
 async function clusterInfoKubernetes(explorerNode: explorer.KubernetesObject) {
     const targetContext = explorerNode.metadata.context;
-    const shellResult = await kubectl.invokeAsync(`cluster-info`);
+    const shellResult = await kubectl.invokeAsync(`cluster-info --context ${targetContext}`);
     if (shellResult.code === 0) {
         kubeChannel.showOutput(shellResult.stdout, `cluster-info for ${explorerNode.id}`);
     } else {
@@ -7,6 +7,7 @@ export interface FS {
     writeFile(filename : string, data : any, callback? : (err : NodeJS.ErrnoException) => void) : void;
     writeFileSync(filename : string, data : any) : void;
     dirSync(path: string) : string[];
+    mkdirSync(path : string) : void;
 }
 
 export const fs : FS = {
@@ -16,4 +17,5 @@ export const fs : FS = {
     writeFile: (filename, data, callback) => sysfs.writeFile(filename, data, callback),
     writeFileSync: (filename, data) => sysfs.writeFileSync(filename, data),
     dirSync: (path) => sysfs.readdirSync(path),
+    mkdirSync: (path) => sysfs.mkdirSync(path),
 };
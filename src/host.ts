@@ -7,7 +7,7 @@ export interface Host {
     showQuickPick(items : string[], options : vscode.QuickPickOptions) : Thenable<string>;
     showQuickPick<T extends vscode.QuickPickItem>(items : T[], options : vscode.QuickPickOptions) : Thenable<T>;
     withProgress<R>(task: (progress: vscode.Progress<{ message?: string; }>) => Thenable<R>): Thenable<R>;
-    getConfiguration(key : string) : any;
+    getConfiguration(key : string, resource? : vscode.Uri) : any;
 }
 
 export const host : Host = {
@@ -60,6 +60,6 @@ function withProgress<R>(task: (progress: vscode.Progress<{ message?: string; }>
     return vscode.window.withProgress({ location: vscode.ProgressLocation.Window }, task);
 }
 
-function getConfiguration(key : string) : any {
-    return vscode.workspace.getConfiguration(key);
+function getConfiguration(key : string, resource? : vscode.Uri) : any {
+    return vscode.workspace.getConfiguration(key, resource);
 }
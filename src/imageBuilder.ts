@@ -0,0 +1,142 @@
+import { host as defaultHost, Host } from './host';
+
+const IMAGE_BUILDER_SETTING = 'vs-kubernetes.image-builder';
+const DOCKERFILE_SETTING = 'vs-kubernetes.dockerfile';
+const BUILD_ARGS_SETTING = 'vs-kubernetes.build-args';
+const IMAGE_TAG_SETTING = 'vs-kubernetes.image-tag';
+
+const DEFAULT_DOCKERFILE = 'Dockerfile';
+const DEFAULT_IMAGE_TAG = '${name}:${version}';
+
+/**
+ * How to build the image for the workspace's app.  Paths are relative to the workspace folder.
+ */
+export interface BuildOptions {
+    readonly dockerfile : string;
+    readonly buildArgs : { [name : string] : string };
+}
+
+/**
+ * Builds images and makes them available to the cluster, either by pushing them to a
+ * registry or by loading them into a local cluster.  Builders are held in a registry; to
+ * support another tool, call registerImageBuilder.
+ */
+export interface ImageBuilder {
+    readonly id : string;
+    readonly displayName : string;
+    /** A shell command, run in the workspace folder, which builds the image. */
+    buildCommand(image : string, options : BuildOptions) : string;
+    /** A shell command which makes the built image available to the cluster of the given context. */
+    publishCommand(image : string, contextName : string | undefined) : string;
+    /** What the publish command did, for messages, e.g. 'pushed'. */
+    readonly published : string;
+    /** The pull policy pods need to use the image, if the default policy would not find it. */
+    readonly imagePullPolicy? : string;
+}
+
+const builders : ImageBuilder[] = [];
+
+export function registerImageBuilder(builder : ImageBuilder) : void {
+    builders.push(builder);
+}
+
+export function allImageBuilders() : ImageBuilder[] {
+    return builders.slice();
+}
+
+/**
+ * The image builder chosen in settings, or Docker if none is chosen.
+ */
+export function imageBuilder(host : Host = defaultHost) : ImageBuilder {
+    const id = host.getConfiguration('vs-kubernetes')[IMAGE_BUILDER_SETTING];
+    return builders.find((b) => b.id === id) || dockerImageBuilder;
+}
+
+export function buildOptions(host : Host = defaultHost) : BuildOptions {
+    const config = host.getConfiguration('vs-kubernetes');
+    return {
+        dockerfile: config[DOCKERFILE_SETTING] || DEFAULT_DOCKERFILE,
+        buildArgs: config[BUILD_ARGS_SETTING] || {}
+    };
+}
+
+/**
+ * The image name for the workspace's app, from the tag template in settings.  The template
+ * can contain ${name}, the sanitised folder name, and ${version}, from git describe.  The
+ * vsdocker.imageUser prefix, if any, is added in front.
+ */
+export function imageName(name : string, version : string, imageUser : string | undefined, host : Host = defaultHost) : string {
+    const template : string = host.getConfiguration('vs-kubernetes')[IMAGE_TAG_SETTING] || DEFAULT_IMAGE_TAG;
+    const image = template.replace(/\$\{name\}/g, name).replace(/\$\{version\}/g, version);
+    return imageUser ? `${imageUser}/${image}` : image;
+}
+
+/**
+ * Arguments for kubectl run which let pods use an image made by the builder.
+ */
+export function runArgs(builder : ImageBuilder) : string {
+    return builder.imagePullPolicy ? ` --image-pull-policy=${builder.imagePullPolicy}` : '';
+}
+
+function buildArgs(image : string, options : BuildOptions) : string {
+    const args = Object.keys(options.buildArgs).map((k) => ` --build-arg "${k}=${options.buildArgs[k]}"`);
+    return `-t ${image} -f "${options.dockerfile}"${args.join('')} .`;
+}
+
+// kind names a cluster's context kind-<cluster>.
+function kindClusterArg(contextName : string | undefined) : string {
+    return (contextName && contextName.startsWith('kind-')) ? ` --name ${contextName.substring('kind-'.length)}` : '';
+}
+
+// minikube names a profile's context after the profile.
+function minikubeProfileArg(contextName : string | undefined) : string {
+    return contextName ? ` --profile ${contextName}` : '';
+}
+
+export const dockerImageBuilder : ImageBuilder = {
+    id: 'docker',
+    displayName: 'Docker',
+    buildCommand: (image, options) => `docker build ${buildArgs(image, options)}`,
+    publishCommand: (image) => `docker push ${image}`,
+    published: 'pushed'
+};
+
+export const buildahImageBuilder : ImageBuilder = {
+    id: 'buildah',
+    displayName: 'Buildah',
+    buildCommand: (image, options) => `buildah bud ${buildArgs(image, options)}`,
+    publishCommand: (image) => `buildah push ${image}`,
+    published: 'pushed'
+};
+
+export const podmanImageBuilder : ImageBuilder = {
+    id: 'podman',
+    displayName: 'Podman',
+    buildCommand: (image, options) => `podman build ${buildArgs(image, options)}`,
+    publishCommand: (image) => `podman push ${image}`,
+    published: 'pushed'
+};
+
+export const kindImageBuilder : ImageBuilder = {
+    id: 'kind',
+    displayName: 'Docker, loaded into kind',
+    buildCommand: (image, options) => `docker build ${buildArgs(image, options)}`,
+    publishCommand: (image, contextName) => `kind load docker-image ${image}${kindClusterArg(contextName)}`,
+    published: 'loaded into kind',
+    imagePullPolicy: 'IfNotPresent'
+};
+
+export const minikubeImageBuilder : ImageBuilder = {
+    id: 'minikube',
+    displayName: 'Docker, loaded into minikube',
+    buildCommand: (image, options) => `docker build ${buildArgs(image, options)}`,
+    publishCommand: (image, contextName) => `minikube image load ${image}${minikubeProfileArg(contextName)}`,
+    published: 'loaded into minikube',
+    imagePullPolicy: 'IfNotPresent'
+};
+
+registerImageBuilder(dockerImageBuilder);
+registerImageBuilder(buildahImageBuilder);
+registerImageBuilder(podmanImageBuilder);
+registerImageBuilder(kindImageBuilder);
+registerImageBuilder(minikubeImageBuilder);
@@ -1,58 +1,210 @@
 'use strict';
 
-import { host } from './host';
-import { shell } from './shell';
-import { fs } from './fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
 import * as yaml from 'js-yaml';
+import { host as defaultHost, Host } from './host';
+import { shell as defaultShell, Shell } from './shell';
+import { fs as defaultFS, FS } from './fs';
 
-export function readKubectlConfig() : Promise<KubeConfig> {
+const KUBECONFIG_SETTING = 'vs-kubernetes.kubeconfig';
+
+/**
+ * The merged contents of the kubeconfig files in use.  Each cluster, context and user
+ * records the file it came from.  Credentials are not read: kubectl, which makes every
+ * connection to the cluster, resolves them itself.
+ */
+export interface KubeConfig {
+    readonly currentContext? : string;
+    readonly clusters : Cluster[];
+    readonly contexts : Context[];
+    readonly users : User[];
+}
+
+export interface Cluster {
+    readonly name : string;
+    readonly source : string;
+    readonly server : string;
+}
+
+export interface Context {
+    readonly name : string;
+    readonly source : string;
+    readonly cluster : string;
+    readonly user : string;
+    readonly namespace? : string;
+}
+
+export interface User {
+    readonly name : string;
+    readonly source : string;
+}
+
+/**
+ * The kubeconfig files in use, in order of precedence: the files chosen in settings if
+ * there are any, otherwise the files in the KUBECONFIG environment variable if it is set,
+ * otherwise ~/.kube/config.
+ */
+export function kubeconfigPaths(shell : Shell = defaultShell, host : Host = defaultHost) : string[] {
+    const configured = configuredKubeconfigPaths(host, shell);
+    if (configured) {
+        return configured;
+    }
+    const kubeconfigEnv = process.env['KUBECONFIG'];
+    if (kubeconfigEnv) {
+        return kubeconfigEnv.split(pathSeparator(shell)).filter((p) => p.length > 0);
+    }
+    return [ shell.combinePath(shell.home(), ".kube/config") ];
+}
+
+/**
+ * The kubeconfig files chosen in the vs-kubernetes.kubeconfig setting, or undefined if none
+ * are.  Each workspace folder can choose its own; the choice for the folder of the active
+ * editor, or else the first folder, applies.
+ */
+export function configuredKubeconfigPaths(host : Host = defaultHost, shell : Shell = defaultShell) : string[] | undefined {
+    const folder = activeWorkspaceFolder();
+    const setting = host.getConfiguration('vs-kubernetes', folder ? folder.uri : undefined)[KUBECONFIG_SETTING];
+    const paths : string[] = (Array.isArray(setting) ? setting : [ setting ]).filter((p) => !!p);
+    if (paths.length === 0) {
+        return undefined;
+    }
+    return paths.map((p) => {
+        if (p.startsWith('~/') || p.startsWith('~\\')) {
+            return shell.combinePath(shell.home(), p.substring(2));
+        }
+        return folder ? path.resolve(folder.uri.fsPath, p) : p;
+    });
+}
+
+/**
+ * The value of KUBECONFIG for running kubectl with the kubeconfig files chosen in settings,
+ * or undefined if none are chosen, in which case kubectl should run with the usual environment.
+ */
+export function kubeconfigEnv(host : Host = defaultHost, shell : Shell = defaultShell) : string | undefined {
+    const configured = configuredKubeconfigPaths(host, shell);
+    return configured ? configured.join(pathSeparator(shell)) : undefined;
+}
+
+/**
+ * Saves the choice of kubeconfig files, for a workspace folder or for all workspaces.  Choosing
+ * no files goes back to using KUBECONFIG or ~/.kube/config.
+ */
+export async function setConfiguredKubeconfigPaths(paths : string[] | undefined, folder : vscode.WorkspaceFolder | undefined) : Promise<void> {
+    const config = vscode.workspace.getConfiguration(undefined, folder ? folder.uri : undefined);
+    const inspected = config.inspect<any>('vs-kubernetes');
+    const current = (folder ? inspected.workspaceFolderValue : inspected.globalValue) || {};
+    const updated = Object.assign({}, current);
+    if (paths && paths.length > 0) {
+        updated[KUBECONFIG_SETTING] = paths.length === 1 ? paths[0] : paths;
+    } else {
+        delete updated[KUBECONFIG_SETTING];
+    }
+    const target = folder ? vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Global;
+    await config.update('vs-kubernetes', updated, target);
+}
+
+export function activeWorkspaceFolder() : vscode.WorkspaceFolder | undefined {
+    const editor = vscode.window.activeTextEditor;
+    const folder = editor ? vscode.workspace.getWorkspaceFolder(editor.document.uri) : undefined;
+    if (folder) {
+        return folder;
+    }
+    const folders = vscode.workspace.workspaceFolders;
+    return (folders && folders.length > 0) ? folders[0] : undefined;
+}
+
+/**
+ * Reads and merges the kubeconfig files in use.  Files which don't exist are skipped, as
+ * kubectl does.
+ */
+export async function readKubectlConfig(fs : FS = defaultFS, shell : Shell = defaultShell, host : Host = defaultHost) : Promise<KubeConfig> {
+    const configs : KubeConfig[] = [];
+    for (const kubeconfigPath of kubeconfigPaths(shell, host)) {
+        if (!fs.existsSync(kubeconfigPath)) {
+            continue;
+        }
+        const text = await readFile(fs, kubeconfigPath);
+        configs.push(parseKubeconfig(text, kubeconfigPath));
+    }
+    return mergeKubeconfigs(configs);
+}
+
+export function parseKubeconfig(text : string, source : string) : KubeConfig {
+    const kc = yaml.safeLoad(text) || {};
+    return {
+        currentContext: kc['current-context'] || undefined,
+        clusters: (kc['clusters'] || []).map((c) => parseCluster(c, source)),
+        contexts: (kc['contexts'] || []).map((c) => parseContext(c, source)),
+        users: (kc['users'] || []).map((u) => parseUser(u, source))
+    };
+}
+
+/**
+ * Merges kubeconfigs in the way kubectl does: the first file to set the current context, or
+ * to define a cluster, context or user of a given name, wins.
+ */
+export function mergeKubeconfigs(configs : KubeConfig[]) : KubeConfig {
+    const current = configs.find((c) => !!c.currentContext);
+    return {
+        currentContext: current ? current.currentContext : undefined,
+        clusters: mergeNamed(configs.map((c) => c.clusters)),
+        contexts: mergeNamed(configs.map((c) => c.contexts)),
+        users: mergeNamed(configs.map((c) => c.users))
+    };
+}
+
+function parseCluster(c : any, source : string) : Cluster {
+    const cluster = c['cluster'] || {};
+    return {
+        name: c['name'],
+        source: source,
+        server: cluster['server']
+    };
+}
+
+function parseContext(c : any, source : string) : Context {
+    const context = c['context'] || {};
+    return {
+        name: c['name'],
+        source: source,
+        cluster: context['cluster'],
+        user: context['user'],
+        namespace: context['namespace'] || undefined
+    };
+}
+
+function parseUser(u : any, source : string) : User {
+    return {
+        name: u['name'],
+        source: source
+    };
+}
+
+function mergeNamed<T extends { readonly name : string }>(lists : T[][]) : T[] {
+    const merged : T[] = [];
+    for (const list of lists) {
+        for (const item of list) {
+            if (!merged.some((m) => m.name === item.name)) {
+                merged.push(item);
+            }
+        }
+    }
+    return merged;
+}
+
+function pathSeparator(shell : Shell) : string {
+    return shell.isWindows() ? ';' : ':';
+}
+
+function readFile(fs : FS, filename : string) : Promise<string> {
     return new Promise((resolve, reject) => {
-        const kubeConfig = shell.combinePath(shell.home(), ".kube/config");
-        fs.readFile(kubeConfig, 'utf8', (err, data) => {
+        fs.readFile(filename, 'utf8', (err, data) => {
             if (err) {
                 reject(err);
                 return;
             }
-            const kcconfigf = data;
-            const kcconfig = yaml.safeLoad(kcconfigf);
-            const apiVersion = kcconfig['apiVersion'];
-            const currentContextName = kcconfig['current-context'];
-            const currentContextDef = kcconfig['contexts'].find((c) => c['name'] === currentContextName);
-            if (!currentContextDef) {
-                reject({ kubectlError: 'noCurrentContext', message: 'No current context in .kube/config' });
-                return;
-            }
-            const currentContext = currentContextDef['context'];
-            const currentClusterDef = kcconfig['clusters'].find((c) => c['name'] === currentContext['cluster']);
-            if (!currentClusterDef) {
-                reject({ kubectlError: 'noCluster', message: 'Invalid cluster in current context in .kube/config' });
-                return;
-            }
-            const currentCluster = currentClusterDef['cluster'];
-            const endpoint = currentCluster['server'];
-            const cadata = currentCluster['certificate-authority-data'];
-            const currentUserDef = kcconfig['users'].find((u) => u['name'] === currentContext['user']);
-            if (!currentUserDef) {
-                reject({ kubectlError: 'noUser', message: 'Invalid user in current context in .kube/config' });
-                return;
-            }
-            const currentUser = currentUserDef['user'];
-            const clientCertData = currentUser['client-certificate-data'];
-            const clientKeyData = currentUser['client-key-data'];
-
-            resolve({
-                endpoint: endpoint,
-                clientCertificateData: Buffer.from(clientCertData, 'base64'),
-                clientKeyData: Buffer.from(clientKeyData, 'base64'),
-                certificateAuthorityData: Buffer.from(cadata, 'base64')
-            });
+            resolve(data);
         });
     });
 }
-
-export interface KubeConfig {
-    readonly endpoint : string;
-    readonly clientCertificateData : Buffer;
-    readonly clientKeyData : Buffer;
-    readonly certificateAuthorityData : Buffer;
-}
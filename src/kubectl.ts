@@ -1,7 +1,9 @@
+import { ChildProcess, spawn as spawnChildProcess } from 'child_process';
 import { Host } from './host';
 import { FS } from './fs';
 import { Shell, ShellHandler, ShellResult } from './shell';
 import * as binutil from './binutil';
+import * as kubeconfig from './kubeconfig';
 
 export interface Kubectl {
     checkPresent(errorMessageMode : CheckPresentMessageMode) : Promise<boolean>;
@@ -10,6 +12,7 @@ export interface Kubectl {
     invokeAsync(command : string) : Promise<ShellResult>;
     invokeAsyncWithProgress(command : string, progressMessage: string) : Promise<ShellResult>;
     asLines(command : string): Promise<string[] | ShellResult>;
+    spawnAsChild(command : string[]) : Promise<ChildProcess | undefined>;
     path() : string;
 }
 
@@ -46,6 +49,9 @@ class KubectlImpl implements Kubectl {
     asLines(command : string) : Promise<string[] | ShellResult> {
         return asLines(this.context, command);
     }
+    spawnAsChild(command : string[]) : Promise<ChildProcess | undefined> {
+        return spawnAsChild(this.context, command);
+    }
     path() : string {
         return path(this.context);
     }
@@ -104,7 +110,7 @@ async function invokeWithProgress(context : Context, command : string, progressM
 async function invokeAsync(context : Context, command : string) : Promise<ShellResult> {
     const bin = baseKubectlPath(context);
     let cmd = bin + ' ' + command;
-    return await context.shell.exec(cmd);
+    return await context.shell.execCore(cmd, execOpts(context));
 }
 
 async function invokeAsyncWithProgress(context : Context, command : string, progressMessage : string): Promise<ShellResult> {
@@ -118,7 +124,7 @@ async function kubectlInternal(context : Context, command : string, handler : Sh
     if (await checkPresent(context, 'command')) {
         const bin = baseKubectlPath(context);
         let cmd = bin + ' ' + command;
-        context.shell.exec(cmd).then(({code, stdout, stderr}) => handler(code, stdout, stderr));
+        context.shell.execCore(cmd, execOpts(context)).then(({code, stdout, stderr}) => handler(code, stdout, stderr));
     }
 }
 
@@ -154,6 +160,24 @@ async function asLines(context : Context, command : string) : Promise<string[] |
     return shellResult;
 }
 
+async function spawnAsChild(context : Context, command : string[]) : Promise<ChildProcess | undefined> {
+    if (await checkPresent(context, 'command')) {
+        const opts = execOpts(context);
+        return spawnChildProcess(path(context), command, { cwd: opts.cwd, env: opts.env });
+    }
+    return undefined;
+}
+
+// kubectl uses the kubeconfig files chosen in settings, if there are any.
+function execOpts(context : Context) : any {
+    const opts = context.shell.execOpts();
+    const kubeconfigEnv = kubeconfig.kubeconfigEnv(context.host, context.shell);
+    if (!kubeconfigEnv) {
+        return opts;
+    }
+    return Object.assign({}, opts, { env: Object.assign({}, opts.env, { KUBECONFIG: kubeconfigEnv }) });
+}
+
 function path(context : Context) : string {
     let bin = baseKubectlPath(context);
     return binutil.execPath(context.shell, bin);
@@ -1,12 +1,16 @@
 import * as vscode from "vscode";
 import { Kubectl } from "./kubectl";
+import { ShellResult } from "./shell";
 import { kubeChannel } from "./kubeChannel";
+import * as kubeconfig from "./kubeconfig";
+import { ResourceKind, parseApiResources } from "./kuberesources";
 
 export interface Cluster {
     readonly name: string;
     readonly context: string;
     readonly user: string;
     readonly active: boolean;
+    readonly source: string;
 }
 
 export interface Namespace {
@@ -14,28 +18,84 @@ export interface Namespace {
     readonly active: boolean;
 }
 
-async function getKubeconfig(kubectl: Kubectl): Promise<any> {
-    const shellResult = await kubectl.invokeAsync("config view -o json");
-    if (shellResult.code !== 0) {
-        vscode.window.showErrorMessage(shellResult.stderr);
+export interface ObjectMeta {
+    readonly name: string;
+    readonly namespace?: string;
+    readonly uid?: string;
+    readonly creationTimestamp?: string;
+    readonly deletionTimestamp?: string;
+    readonly labels?: { [key: string]: string };
+    readonly annotations?: { [key: string]: string };
+}
+
+export interface KubernetesResource {
+    readonly apiVersion: string;
+    readonly kind: string;
+    readonly metadata: ObjectMeta;
+    readonly spec?: any;
+    readonly status?: any;
+}
+
+export interface KubernetesResourceList extends KubernetesResource {
+    readonly items: KubernetesResource[];
+}
+
+/**
+ * Whether kubectl returned a list of objects, as it does when getting a kind rather than
+ * one object.
+ */
+export function isResourceList(resource: KubernetesResource): resource is KubernetesResourceList {
+    return Array.isArray((resource as { items?: KubernetesResource[] }).items);
+}
+
+export type ResourceHealth = 'healthy' | 'warning' | 'error' | 'unknown';
+
+export interface ResourceInfo {
+    readonly name: string;
+    readonly namespace?: string;
+    readonly kind: string;
+    readonly labels: { [key: string]: string };
+    readonly creationTimestamp?: string;
+    readonly status: string;
+    readonly ready?: string;
+    readonly restarts?: number;
+    readonly health: ResourceHealth;
+    readonly resource: KubernetesResource;
+}
+
+export interface ContainerInfo {
+    readonly name: string;
+    readonly image: string;
+    readonly init: boolean;
+    readonly ready: boolean;
+    readonly restartCount: number;
+    readonly state: string;
+    readonly health: ResourceHealth;
+}
+
+const POD_ERROR_REASONS = [
+    "CrashLoopBackOff", "ErrImagePull", "ImagePullBackOff", "InvalidImageName",
+    "CreateContainerConfigError", "CreateContainerError", "RunContainerError",
+    "Error", "OOMKilled", "ContainerCannotRun", "DeadlineExceeded", "Evicted"
+];
+
+async function getKubeconfig(): Promise<kubeconfig.KubeConfig | null> {
+    try {
+        return await kubeconfig.readKubectlConfig();
+    } catch (ex) {
+        vscode.window.showErrorMessage(`Unable to read kubeconfig: ${ex.message || ex}`);
         return null;
     }
-    return JSON.parse(shellResult.stdout);
 }
 
-export async function getClusters(kubectl: Kubectl): Promise<Cluster[]> {
-    const kubectlConfig = await getKubeconfig(kubectl);
-    if (!kubectlConfig) {
-        return [];
-    }
-    const currentContext = kubectlConfig["current-context"];
-    const contexts = kubectlConfig.contexts;
-    return contexts.map((c) => {
+export function getClusters(kc: kubeconfig.KubeConfig): Cluster[] {
+    return kc.contexts.map((c) => {
         return {
-            name: c.context.cluster,
+            name: c.cluster,
             context: c.name,
-            user: c.context.user,
-            active: c.name === currentContext
+            user: c.user,
+            active: c.name === kc.currentContext,
+            source: c.source
         };
     });
 }
@@ -73,7 +133,7 @@ export async function getNamespaces(kubectl: Kubectl): Promise<Namespace[]> {
         return [];
     }
     const ns = JSON.parse(shellResult.stdout);
-    const currentNS = await currentNamespace(kubectl);
+    const currentNS = await currentNamespace();
     return ns.items.map((item) => {
         return {
             name: item.metadata.name,
@@ -82,17 +142,313 @@ export async function getNamespaces(kubectl: Kubectl): Promise<Namespace[]> {
     });
 }
 
-async function currentNamespace(kubectl: Kubectl): Promise<string> {
-    const kubectlConfig = await getKubeconfig(kubectl);
-    if (!kubectlConfig) {
+/**
+ * Lists the kinds of object the cluster serves, including custom resources, using
+ * `kubectl api-resources`. Only kinds which can be listed are included. On failure,
+ * returns the kubectl result so that the caller can decide how to report the error.
+ */
+export async function getResourceKinds(kubectl: Kubectl): Promise<ResourceKind[] | ShellResult> {
+    const shellResult = await kubectl.invokeAsync("api-resources --verbs=list");
+    if (shellResult.code !== 0) {
+        return shellResult;
+    }
+    return parseApiResources(shellResult.stdout);
+}
+
+/**
+ * Lists the objects of a kind using `kubectl get -o json`. If no namespace is given, the
+ * objects are listed from the active namespace. If a label selector is given, only matching
+ * objects are listed. On failure, returns the kubectl result so that the caller can decide
+ * how to report the error.
+ */
+export async function getResources(kubectl: Kubectl, kind: string, namespace?: string, labelSelector?: string): Promise<ResourceInfo[] | ShellResult> {
+    const namespaceArg = namespace ? ` -n ${namespace}` : '';
+    const selectorArg = labelSelector ? ` -l "${labelSelector}"` : '';
+    const shellResult = await kubectl.invokeAsync(`get ${kind}${namespaceArg}${selectorArg} -o json`);
+    if (shellResult.code !== 0) {
+        return shellResult;
+    }
+    let list: any;
+    try {
+        list = JSON.parse(shellResult.stdout);
+    } catch (ex) {
+        return { code: -1, stdout: shellResult.stdout, stderr: `Unable to parse kubectl output: ${ex}` };
+    }
+    const items: KubernetesResource[] = list.items || [ list ];
+    return items.map(resourceInfo);
+}
+
+/**
+ * Gets a single object, identified as kind/name, using `kubectl get -o json`.
+ */
+export async function getResource(kubectl: Kubectl, resourceId: string, namespace?: string): Promise<KubernetesResource | ShellResult> {
+    const namespaceArg = namespace ? ` -n ${namespace}` : '';
+    const shellResult = await kubectl.invokeAsync(`get ${resourceId}${namespaceArg} -o json`);
+    if (shellResult.code !== 0) {
+        return shellResult;
+    }
+    try {
+        return JSON.parse(shellResult.stdout);
+    } catch (ex) {
+        return { code: -1, stdout: shellResult.stdout, stderr: `Unable to parse kubectl output: ${ex}` };
+    }
+}
+
+/**
+ * Gets the label selector, in kubectl -l syntax, that a workload or service uses to
+ * choose its pods. Returns undefined if the object does not select pods.
+ */
+export function podSelector(resource: KubernetesResource): string | undefined {
+    const selector = resource.spec && resource.spec.selector;
+    if (!selector) {
+        return undefined;
+    }
+    if (!selector.matchLabels && !selector.matchExpressions) {
+        // Services and replication controllers use a plain label map
+        const mapSelectorText = labelMapSelector(selector);
+        return mapSelectorText.length > 0 ? mapSelectorText : undefined;
+    }
+    const terms: string[] = [];
+    if (selector.matchLabels) {
+        terms.push(labelMapSelector(selector.matchLabels));
+    }
+    for (const expr of (selector.matchExpressions || [])) {
+        const values = (expr.values || []).join(',');
+        switch (expr.operator) {
+            case "In": terms.push(`${expr.key} in (${values})`); break;
+            case "NotIn": terms.push(`${expr.key} notin (${values})`); break;
+            case "Exists": terms.push(expr.key); break;
+            case "DoesNotExist": terms.push(`!${expr.key}`); break;
+        }
+    }
+    const selectorText = terms.filter((t) => t.length > 0).join(',');
+    return selectorText.length > 0 ? selectorText : undefined;
+}
+
+function labelMapSelector(labels: { [key: string]: string }): string {
+    return Object.keys(labels).map((k) => `${k}=${labels[k]}`).join(',');
+}
+
+/**
+ * Lists the init containers and containers of a pod, in that order, with their current state.
+ */
+export function getContainers(pod: KubernetesResource): ContainerInfo[] {
+    const spec = pod.spec || {};
+    const status = pod.status || {};
+    const initContainers = (spec.initContainers || []).map((c) => containerInfo(c, status.initContainerStatuses, true));
+    const containers = (spec.containers || []).map((c) => containerInfo(c, status.containerStatuses, false));
+    return initContainers.concat(containers);
+}
+
+function containerInfo(container: any, statuses: any[] | undefined, init: boolean): ContainerInfo {
+    const containerStatus = (statuses || []).find((cs) => cs.name === container.name) || {};
+    const state = containerStatus.state || {};
+    let stateText = "Unknown";
+    let health: ResourceHealth = 'unknown';
+    if (state.running) {
+        stateText = "Running";
+        health = (containerStatus.ready || init) ? 'healthy' : 'warning';
+    } else if (state.waiting) {
+        stateText = state.waiting.reason || "Waiting";
+        health = POD_ERROR_REASONS.indexOf(stateText) >= 0 ? 'error' : 'warning';
+    } else if (state.terminated) {
+        stateText = state.terminated.reason || "Terminated";
+        health = state.terminated.exitCode === 0 ? 'healthy' : 'error';
+    }
+    return {
+        name: container.name,
+        image: container.image,
+        init: init,
+        ready: !!containerStatus.ready,
+        restartCount: containerStatus.restartCount || 0,
+        state: stateText,
+        health: health
+    };
+}
+
+function resourceInfo(resource: KubernetesResource): ResourceInfo {
+    const metadata = resource.metadata || { name: "" };
+    const summary = summarise(resource);
+    return {
+        name: metadata.name,
+        namespace: metadata.namespace,
+        kind: resource.kind,
+        labels: metadata.labels || {},
+        creationTimestamp: metadata.creationTimestamp,
+        status: summary.status,
+        ready: summary.ready,
+        restarts: summary.restarts,
+        health: summary.health,
+        resource: resource
+    };
+}
+
+interface StatusSummary {
+    readonly status: string;
+    readonly ready?: string;
+    readonly restarts?: number;
+    readonly health: ResourceHealth;
+}
+
+function summarise(resource: KubernetesResource): StatusSummary {
+    switch (resource.kind) {
+        case "Pod": return summarisePod(resource);
+        case "Deployment":
+        case "StatefulSet":
+        case "ReplicaSet":
+        case "ReplicationController": return summariseReplicated(resource);
+        case "DaemonSet": return summariseDaemonSet(resource);
+        case "Job": return summariseJob(resource);
+        case "CronJob": return summariseCronJob(resource);
+        case "PersistentVolumeClaim":
+        case "PersistentVolume": return summariseVolume(resource);
+        case "Node": return summariseNode(resource);
+        case "Namespace": return summariseNamespace(resource);
+        case "Service": return summariseService(resource);
+        default: return { status: "", health: 'unknown' };
+    }
+}
+
+function summarisePod(pod: KubernetesResource): StatusSummary {
+    const status = pod.status || {};
+    const containerStatuses: any[] = status.containerStatuses || [];
+    const readyCount = containerStatuses.filter((cs) => cs.ready).length;
+    const containerCount = pod.spec && pod.spec.containers ? pod.spec.containers.length : containerStatuses.length;
+    const ready = `${readyCount}/${containerCount}`;
+    const restarts = containerStatuses.reduce((total, cs) => total + (cs.restartCount || 0), 0);
+
+    if (pod.metadata.deletionTimestamp) {
+        return { status: "Terminating", ready: ready, restarts: restarts, health: 'warning' };
+    }
+
+    const stateReasons: string[] = containerStatuses.map((cs) => {
+        const state = cs.state || {};
+        return (state.waiting && state.waiting.reason) || (state.terminated && state.terminated.reason);
+    }).filter((r) => !!r);
+    const errorReason = stateReasons.find((r) => POD_ERROR_REASONS.indexOf(r) >= 0);
+    if (errorReason) {
+        return { status: errorReason, ready: ready, restarts: restarts, health: 'error' };
+    }
+
+    const phase: string = status.reason || status.phase || "Unknown";
+    switch (phase) {
+        case "Running":
+            return { status: phase, ready: ready, restarts: restarts, health: readyCount === containerCount ? 'healthy' : 'warning' };
+        case "Succeeded":
+            return { status: "Completed", ready: ready, restarts: restarts, health: 'healthy' };
+        case "Pending":
+            return { status: stateReasons[0] || phase, ready: ready, restarts: restarts, health: 'warning' };
+        case "Failed":
+            return { status: phase, ready: ready, restarts: restarts, health: 'error' };
+        default:
+            return { status: phase, ready: ready, restarts: restarts, health: POD_ERROR_REASONS.indexOf(phase) >= 0 ? 'error' : 'unknown' };
+    }
+}
+
+function summariseReplicated(resource: KubernetesResource): StatusSummary {
+    const desired: number = resource.spec && resource.spec.replicas !== undefined ? resource.spec.replicas : 1;
+    const readyReplicas: number = (resource.status && resource.status.readyReplicas) || 0;
+    const ready = `${readyReplicas}/${desired}`;
+    if (readyReplicas >= desired) {
+        return { status: "Available", ready: ready, health: 'healthy' };
+    }
+    const conditions: any[] = (resource.status && resource.status.conditions) || [];
+    const failed = conditions.find((c) => (c.type === "ReplicaFailure" && c.status === "True") || (c.type === "Progressing" && c.status === "False"));
+    if (failed) {
+        return { status: failed.reason || "Failed", ready: ready, health: 'error' };
+    }
+    return { status: "Progressing", ready: ready, health: 'warning' };
+}
+
+function summariseJob(job: KubernetesResource): StatusSummary {
+    const completions: number = job.spec && job.spec.completions !== undefined ? job.spec.completions : 1;
+    const status = job.status || {};
+    const succeeded: number = status.succeeded || 0;
+    const ready = `${succeeded}/${completions}`;
+    if (succeeded >= completions) {
+        return { status: "Complete", ready: ready, health: 'healthy' };
+    }
+    if (status.failed) {
+        return { status: "Failed", ready: ready, health: 'error' };
+    }
+    return { status: "Running", ready: ready, health: 'warning' };
+}
+
+function summariseDaemonSet(ds: KubernetesResource): StatusSummary {
+    const status = ds.status || {};
+    const desired: number = status.desiredNumberScheduled || 0;
+    const readyNodes: number = status.numberReady || 0;
+    const ready = `${readyNodes}/${desired}`;
+    return readyNodes >= desired ?
+        { status: "Available", ready: ready, health: 'healthy' } :
+        { status: "Progressing", ready: ready, health: 'warning' };
+}
+
+function summariseCronJob(cronJob: KubernetesResource): StatusSummary {
+    const spec = cronJob.spec || {};
+    const status = cronJob.status || {};
+    if (spec.suspend) {
+        return { status: `${spec.schedule} (suspended)`, health: 'warning' };
+    }
+    const active: any[] = status.active || [];
+    return { status: active.length > 0 ? `${spec.schedule} (${active.length} active)` : spec.schedule, health: 'healthy' };
+}
+
+function summariseVolume(volume: KubernetesResource): StatusSummary {
+    const phase: string = (volume.status && volume.status.phase) || "Unknown";
+    switch (phase) {
+        case "Bound":
+        case "Available": return { status: phase, health: 'healthy' };
+        case "Lost":
+        case "Failed": return { status: phase, health: 'error' };
+        default: return { status: phase, health: 'warning' };
+    }
+}
+
+function summariseNode(node: KubernetesResource): StatusSummary {
+    const conditions: any[] = (node.status && node.status.conditions) || [];
+    const readyCondition = conditions.find((c) => c.type === "Ready");
+    const unschedulable = node.spec && node.spec.unschedulable;
+    if (!readyCondition || readyCondition.status === "Unknown") {
+        return { status: "Unknown", health: 'unknown' };
+    }
+    if (readyCondition.status !== "True") {
+        return { status: "NotReady", health: 'error' };
+    }
+    return unschedulable ?
+        { status: "Ready,SchedulingDisabled", health: 'warning' } :
+        { status: "Ready", health: 'healthy' };
+}
+
+function summariseNamespace(ns: KubernetesResource): StatusSummary {
+    const phase: string = (ns.status && ns.status.phase) || "Unknown";
+    return { status: phase, health: phase === "Active" ? 'healthy' : 'warning' };
+}
+
+function summariseService(svc: KubernetesResource): StatusSummary {
+    const spec = svc.spec || {};
+    const type: string = spec.type || "ClusterIP";
+    return { status: spec.clusterIP ? `${type} ${spec.clusterIP}` : type, health: 'unknown' };
+}
+
+export async function currentNamespace(): Promise<string> {
+    const kc = await getKubeconfig();
+    if (!kc) {
         return "";
     }
-    const ctxName = kubectlConfig["current-context"];
-    const currentContext = kubectlConfig.contexts.find((ctx) => ctx.name === ctxName);
+    return contextNamespace(kc);
+}
+
+/**
+ * Gets the namespace of the current context in a kubeconfig, or an empty string if there
+ * is no current context.
+ */
+export function contextNamespace(kc: kubeconfig.KubeConfig): string {
+    const currentContext = kc.contexts.find((ctx) => ctx.name === kc.currentContext);
     if (!currentContext) {
         return "";
     }
-    return currentContext.context.namespace || "default";
+    return currentContext.namespace || "default";
 }
 
 export async function switchNamespace(kubectl: Kubectl, namespace: string): Promise<boolean> {
@@ -1,34 +1,192 @@
 import * as vscode from 'vscode';
 
 export class ResourceKind implements vscode.QuickPickItem {
-    constructor (readonly displayName : string, readonly pluralDisplayName : string, readonly abbreviation : string) {
+    /**
+     * @param abbreviation The name kubectl knows the kind by.
+     * @param group The API group, or '' for the core group.
+     * @param namespaced Whether objects of the kind belong to a namespace.
+     */
+    constructor (readonly displayName : string, readonly pluralDisplayName : string, readonly abbreviation : string,
+                 readonly group : string = '', readonly namespaced : boolean = true) {
     }
 
     get label() { return this.displayName; }
-    get description() { return ''; }
+    get description() { return this.group; }
 }
 
 export const allKinds = {
-    namespace: new ResourceKind("Namespace", "Namespaces", "namespace"),
-    node: new ResourceKind("Node", "Nodes", "node"),
-    deployment: new ResourceKind("Deployment", "Deployments", "deployment"),
-    replicaSet: new ResourceKind("ReplicaSet", "ReplicaSets", "rs"),
+    namespace: new ResourceKind("Namespace", "Namespaces", "namespace", '', false),
+    node: new ResourceKind("Node", "Nodes", "node", '', false),
+    deployment: new ResourceKind("Deployment", "Deployments", "deployment", 'apps'),
+    statefulSet: new ResourceKind("StatefulSet", "StatefulSets", "statefulset", 'apps'),
+    daemonSet: new ResourceKind("DaemonSet", "DaemonSets", "daemonset", 'apps'),
+    replicaSet: new ResourceKind("ReplicaSet", "ReplicaSets", "rs", 'apps'),
     replicationController: new ResourceKind("Replication Controller", "Replication Controllers", "rc"),
-    job: new ResourceKind("Job", "Jobs", "job"),
+    job: new ResourceKind("Job", "Jobs", "job", 'batch'),
+    cronJob: new ResourceKind("CronJob", "CronJobs", "cronjob", 'batch'),
     pod: new ResourceKind("Pod", "Pods", "pod"),
     service: new ResourceKind("Service", "Services", "service"),
+    ingress: new ResourceKind("Ingress", "Ingresses", "ingress", 'networking.k8s.io'),
+    configMap: new ResourceKind("ConfigMap", "ConfigMaps", "configmap"),
+    secret: new ResourceKind("Secret", "Secrets", "secret"),
+    persistentVolumeClaim: new ResourceKind("PersistentVolumeClaim", "PersistentVolumeClaims", "pvc"),
+    persistentVolume: new ResourceKind("PersistentVolume", "PersistentVolumes", "pv", '', false),
 };
 
+// Kinds discovered from the cluster which are also in allKinds are represented by the
+// allKinds object, so that commands and menus which look for those kinds still find them.
+// Ingress has moved between groups, so it is known in each of them.
+const wellKnownKinds : { [groupKind : string] : ResourceKind } = {
+    '/Namespace': allKinds.namespace,
+    '/Node': allKinds.node,
+    'apps/Deployment': allKinds.deployment,
+    'apps/StatefulSet': allKinds.statefulSet,
+    'apps/DaemonSet': allKinds.daemonSet,
+    'apps/ReplicaSet': allKinds.replicaSet,
+    '/ReplicationController': allKinds.replicationController,
+    'batch/Job': allKinds.job,
+    'batch/CronJob': allKinds.cronJob,
+    '/Pod': allKinds.pod,
+    '/Service': allKinds.service,
+    'extensions/Ingress': allKinds.ingress,
+    'networking.k8s.io/Ingress': allKinds.ingress,
+    '/ConfigMap': allKinds.configMap,
+    '/Secret': allKinds.secret,
+    '/PersistentVolumeClaim': allKinds.persistentVolumeClaim,
+    '/PersistentVolume': allKinds.persistentVolume,
+};
+
+/**
+ * Parses the output of `kubectl api-resources` into the kinds it lists.  Older versions of
+ * kubectl show an APIGROUP column and newer ones an APIVERSION column; either works.
+ * A well-known kind which the cluster serves in more than one group is listed once, in the
+ * group allKinds gives for it if the cluster serves that one, otherwise in the first group
+ * listed.
+ */
+export function parseApiResources(text : string) : ResourceKind[] {
+    const lines = text.split('\n').filter((l) => l.trim().length > 0);
+    if (lines.length === 0) {
+        return [];
+    }
+    const columns = columnPositions(lines[0]);
+    const column = (line : string, name : string) => {
+        const c = columns.find((col) => col.name === name);
+        return c ? line.substring(c.start, c.end).trim() : '';
+    };
+    const kinds : ResourceKind[] = [];
+    for (const line of lines.slice(1)) {
+        const name = column(line, 'NAME');
+        const kind = column(line, 'KIND');
+        if (!name || !kind) {
+            continue;
+        }
+        const apiVersion = column(line, 'APIVERSION');
+        const group = apiVersion ? apiGroup(apiVersion) : column(line, 'APIGROUP');
+        const namespaced = column(line, 'NAMESPACED') !== 'false';
+        const wellKnown = wellKnownKinds[`${group}/${kind}`];
+        if (!wellKnown) {
+            kinds.push(new ResourceKind(kind, pluralise(kind), group ? `${name}.${group}` : name, group, namespaced));
+            continue;
+        }
+        const discovered = wellKnown.group === group ? wellKnown : new ResourceKind(wellKnown.displayName, wellKnown.pluralDisplayName, wellKnown.abbreviation, group, wellKnown.namespaced);
+        const listed = kinds.findIndex((k) => k.abbreviation === wellKnown.abbreviation);
+        if (listed < 0) {
+            kinds.push(discovered);
+        } else if (discovered === wellKnown) {
+            kinds[listed] = discovered;
+        }
+    }
+    return kinds;
+}
+
+/**
+ * Finds the kind with the name kubectl knows it by, e.g. 'deployment' or 'widgets.example.com'.
+ */
+export function findKind(kinds : ResourceKind[], abbreviation : string) : ResourceKind | undefined {
+    return kinds.find((k) => k.abbreviation === abbreviation);
+}
+
+/**
+ * Groups kinds by API group, with the core group first and the rest in alphabetical order.
+ */
+export function groupKinds(kinds : ResourceKind[]) : { group : string, kinds : ResourceKind[] }[] {
+    const groups = new Map<string, ResourceKind[]>();
+    for (const kind of kinds) {
+        const groupKinds = groups.get(kind.group) || [];
+        groupKinds.push(kind);
+        groups.set(kind.group, groupKinds);
+    }
+    return Array.from(groups.keys())
+                .sort()
+                .map((g) => ({ group: g, kinds: groups.get(g)!.sort((a, b) => a.displayName.localeCompare(b.displayName)) }));
+}
+
+function columnPositions(header : string) : { name : string, start : number, end : number }[] {
+    const names = header.match(/\S+/g) || [];
+    let searchFrom = 0;
+    const starts = names.map((n) => {
+        const start = header.indexOf(n, searchFrom);
+        searchFrom = start + n.length;
+        return start;
+    });
+    return names.map((n, i) => ({ name: n, start: starts[i], end: (i + 1 < starts.length) ? starts[i + 1] : undefined }));
+}
+
+function apiGroup(apiVersion : string) : string {
+    const slash = apiVersion.indexOf('/');
+    return slash < 0 ? '' : apiVersion.substring(0, slash);
+}
+
+function pluralise(kind : string) : string {
+    if (/[^aeiou]y$/.test(kind)) {
+        return kind.substring(0, kind.length - 1) + 'ies';
+    }
+    if (/(s|x|ch|sh)$/.test(kind)) {
+        return kind + 'es';
+    }
+    return kind + 's';
+}
+
 export const commonKinds = [
     allKinds.deployment,
+    allKinds.statefulSet,
+    allKinds.daemonSet,
     allKinds.job,
+    allKinds.cronJob,
     allKinds.pod,
     allKinds.service,
+    allKinds.ingress,
+    allKinds.configMap,
+    allKinds.secret,
+    allKinds.persistentVolumeClaim,
 ];
 
 export const scaleableKinds = [
     allKinds.deployment,
+    allKinds.statefulSet,
     allKinds.replicaSet,
     allKinds.replicationController,
     allKinds.job,
 ];
+
+export const rolloutKinds = [
+    allKinds.deployment,
+    allKinds.daemonSet,
+    allKinds.statefulSet,
+];
+
+export const podSelectingKinds = [
+    allKinds.deployment,
+    allKinds.statefulSet,
+    allKinds.daemonSet,
+    allKinds.replicaSet,
+    allKinds.replicationController,
+    allKinds.job,
+    allKinds.service,
+];
+
+export const portForwardableKinds = [
+    allKinds.pod,
+    allKinds.deployment,
+    allKinds.service,
+];
@@ -0,0 +1,348 @@
+import * as vscode from 'vscode';
+import { ChildProcess } from 'child_process';
+
+import { Kubectl } from './kubectl';
+import * as kubectlUtils from './kubectlUtils';
+import { isShellResult } from './shell';
+
+export const LOGS_SCHEME = 'k8s-logs';
+
+// Beyond this, the oldest lines are discarded so that long-running follows don't grow without bound.
+const MAX_LOG_LINES = 10000;
+
+// How long to batch up incoming output before refreshing the document.
+const UPDATE_DELAY_MS = 250;
+
+// How often to look for new pods when following the logs of a workload.
+const POD_POLL_INTERVAL_MS = 5000;
+
+// Colours for the per-pod prefixes when logs from several pods are interleaved.
+const PREFIX_COLOURS = [
+    'terminal.ansiCyan',
+    'terminal.ansiGreen',
+    'terminal.ansiYellow',
+    'terminal.ansiMagenta',
+    'terminal.ansiBlue',
+    'terminal.ansiBrightCyan',
+    'terminal.ansiBrightGreen',
+    'terminal.ansiBrightYellow',
+    'terminal.ansiBrightMagenta',
+    'terminal.ansiBrightBlue',
+];
+
+export interface LogsOptions {
+    readonly container? : string;
+    readonly follow? : boolean;
+    readonly since? : string;
+    readonly tail? : number;
+    readonly previous? : boolean;
+    readonly timestamps? : boolean;
+}
+
+export interface WorkloadLogsTarget {
+    readonly kindName : string;
+    readonly namespace? : string;
+    readonly labelSelector : string;
+}
+
+export function logsArgs(podName : string, namespace : string | undefined, options : LogsOptions) : string[] {
+    const args = ['logs', podName];
+    if (namespace) {
+        args.push('-n', namespace);
+    }
+    if (options.container) {
+        args.push('-c', options.container);
+    }
+    if (options.follow) {
+        args.push('-f');
+    }
+    if (options.since) {
+        args.push(`--since=${options.since}`);
+    }
+    if (options.tail !== undefined) {
+        args.push(`--tail=${options.tail}`);
+    }
+    if (options.previous) {
+        args.push('--previous');
+    }
+    if (options.timestamps) {
+        args.push('--timestamps');
+    }
+    return args;
+}
+
+export function logsUri(podName : string, namespace : string | undefined, container : string | undefined) : vscode.Uri {
+    const containerPart = container ? `/${container}` : '';
+    return vscode.Uri.parse(`${LOGS_SCHEME}://logs/${namespace || 'current'}/${podName}${containerPart}.log`);
+}
+
+// The pods whose logs to start streaming when following a workload, given the pods which
+// match its selector.  Each pod is streamed once: pods are recorded in seen by uid, so a pod
+// whose stream has ended is not streamed again, but a pod recreated with the same name is.
+// Pods which haven't started are left for a later poll, and pods which had already finished
+// by a later poll are skipped.
+export function podsToStream(pods : kubectlUtils.ResourceInfo[], seen : Set<string>, isInitial : boolean) : kubectlUtils.ResourceInfo[] {
+    const toStream : kubectlUtils.ResourceInfo[] = [];
+    for (const pod of pods) {
+        const id = pod.resource.metadata.uid || pod.name;
+        const phase = pod.resource.status ? pod.resource.status.phase : undefined;
+        if (seen.has(id) || phase === 'Pending') {
+            continue;
+        }
+        seen.add(id);
+        if (!isInitial && (phase === 'Succeeded' || phase === 'Failed')) {
+            continue;
+        }
+        toStream.push(pod);
+    }
+    return toStream;
+}
+
+function workloadLogsUri(target : WorkloadLogsTarget) : vscode.Uri {
+    return vscode.Uri.parse(`${LOGS_SCHEME}://workload-logs/${target.namespace || 'current'}/${target.kindName}.log`);
+}
+
+interface LogStream {
+    readonly process : ChildProcess;
+    readonly prefix : string;
+    partialLine : string;
+}
+
+interface LogSession {
+    readonly streams : LogStream[];
+    readonly lines : string[];
+    readonly prefixes : string[];
+    finished : boolean;
+    poller? : NodeJS.Timer;
+}
+
+// Shows kubectl logs output in a read-only document, appending to it as
+// output arrives.  The kubectl processes are stopped when the document is closed.
+export class LogsDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    private readonly sessions = new Map<string, LogSession>();
+    private readonly pendingUpdates = new Map<string, NodeJS.Timer>();
+    private readonly prefixDecorations : vscode.TextEditorDecorationType[];
+    private readonly subscriptions : vscode.Disposable[];
+
+    constructor(private readonly kubectl : Kubectl) {
+        this.prefixDecorations = PREFIX_COLOURS.map((c) => vscode.window.createTextEditorDecorationType({
+            color: new vscode.ThemeColor(c),
+            fontWeight: 'bold'
+        }));
+        this.subscriptions = [
+            vscode.workspace.onDidCloseTextDocument((doc) => {
+                if (doc.uri.scheme === LOGS_SCHEME) {
+                    this.stop(doc.uri);
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument((e) => {
+                if (e.document.uri.scheme === LOGS_SCHEME) {
+                    this.decorate(e.document.uri);
+                }
+            }),
+            vscode.window.onDidChangeVisibleTextEditors((editors) => {
+                editors.filter((e) => e.document.uri.scheme === LOGS_SCHEME)
+                       .forEach((e) => this.decorate(e.document.uri));
+            })
+        ];
+    }
+
+    get onDidChange() : vscode.Event<vscode.Uri> {
+        return this._onDidChange.event;
+    }
+
+    provideTextDocumentContent(uri : vscode.Uri, token : vscode.CancellationToken) : vscode.ProviderResult<string> {
+        const session = this.sessions.get(uri.toString());
+        if (!session) {
+            return '';
+        }
+        const pending = session.streams.filter((s) => s.partialLine.length > 0).map((s) => s.prefix + s.partialLine);
+        return session.lines.concat(pending).join('\n');
+    }
+
+    async show(podName : string, namespace : string | undefined, options : LogsOptions) : Promise<void> {
+        const uri = logsUri(podName, namespace, options.container);
+        this.stop(uri);
+
+        const session = this.startSession(uri);
+        if (!(await this.addStream(uri, session, podName, namespace, options, ''))) {
+            this.stop(uri);
+            return;
+        }
+
+        await this.open(uri);
+    }
+
+    // Interleaves the logs of all pods matching the workload's selector, prefixing each
+    // line with the pod it came from.  Pods which start after the command are picked up
+    // by polling, for as long as the document stays open.  So are pods which are recreated
+    // with the same name, as StatefulSet pods are.
+    async showWorkload(target : WorkloadLogsTarget, options : LogsOptions) : Promise<void> {
+        const uri = workloadLogsUri(target);
+        this.stop(uri);
+
+        const session = this.startSession(uri);
+        const seenPods = new Set<string>();
+
+        const addNewPods = async (isInitial : boolean) => {
+            const pods = await kubectlUtils.getResources(this.kubectl, 'pods', target.namespace, target.labelSelector);
+            if (session.finished) {
+                return;
+            }
+            if (isShellResult(pods)) {
+                this.appendLine(uri, session, `[failed to list pods for ${target.kindName}: ${pods.stderr.trim()}]`);
+                return;
+            }
+            const newPods = podsToStream(pods, seenPods, isInitial);
+            for (const pod of newPods) {
+                // Pods that turn up later are shown from their start, so nothing they log is missed.
+                const podOptions = isInitial ? options : { follow: options.follow, timestamps: options.timestamps };
+                const containers = kubectlUtils.getContainers(pod.resource).filter((c) => !c.init);
+                for (const container of containers) {
+                    const prefix = containers.length > 1 ? `[${pod.name}/${container.name}] ` : `[${pod.name}] `;
+                    await this.addStream(uri, session, pod.name, target.namespace, Object.assign({}, podOptions, { container: container.name }), prefix);
+                }
+            }
+            if (isInitial && newPods.length === 0) {
+                this.appendLine(uri, session, `[no running pods match ${target.labelSelector}${options.follow ? ' - waiting for pods to start' : ''}]`);
+            }
+        };
+
+        await addNewPods(true);
+        if (options.follow && !session.finished) {
+            session.poller = setInterval(() => {
+                addNewPods(false).catch((err) => {
+                    if (!session.finished) {
+                        this.appendLine(uri, session, `[failed to look for new pods for ${target.kindName}: ${err && err.message ? err.message : err}]`);
+                    }
+                });
+            }, POD_POLL_INTERVAL_MS);
+        }
+
+        await this.open(uri);
+    }
+
+    stop(uri : vscode.Uri) : void {
+        const key = uri.toString();
+        const session = this.sessions.get(key);
+        if (session) {
+            session.finished = true;
+            if (session.poller) {
+                clearInterval(session.poller);
+            }
+            for (const stream of session.streams) {
+                stream.process.kill();
+            }
+            this.sessions.delete(key);
+        }
+        const pending = this.pendingUpdates.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.pendingUpdates.delete(key);
+        }
+    }
+
+    dispose() : void {
+        for (const key of Array.from(this.sessions.keys())) {
+            this.stop(vscode.Uri.parse(key));
+        }
+        this.subscriptions.forEach((s) => s.dispose());
+        this.prefixDecorations.forEach((d) => d.dispose());
+        this._onDidChange.dispose();
+    }
+
+    private startSession(uri : vscode.Uri) : LogSession {
+        const session : LogSession = { streams: [], lines: [], prefixes: [], finished: false };
+        this.sessions.set(uri.toString(), session);
+        return session;
+    }
+
+    private async open(uri : vscode.Uri) : Promise<void> {
+        const doc = await vscode.workspace.openTextDocument(uri);
+        await vscode.window.showTextDocument(doc, { preview: false });
+    }
+
+    private async addStream(uri : vscode.Uri, session : LogSession, podName : string, namespace : string | undefined, options : LogsOptions, prefix : string) : Promise<boolean> {
+        const process = await this.kubectl.spawnAsChild(logsArgs(podName, namespace, options));
+        if (!process) {
+            return false;
+        }
+        if (session.finished) {
+            process.kill();
+            return false;
+        }
+
+        const stream : LogStream = { process: process, prefix: prefix, partialLine: '' };
+        session.streams.push(stream);
+        if (prefix && session.prefixes.indexOf(prefix) < 0) {
+            session.prefixes.push(prefix);
+        }
+
+        process.stdout.on('data', (data) => this.append(uri, session, stream, data.toString()));
+        process.stderr.on('data', (data) => this.append(uri, session, stream, data.toString()));
+        process.on('close', (code) => {
+            if (!session.finished) {
+                if (stream.partialLine.length > 0) {
+                    this.append(uri, session, stream, '\n');
+                }
+                this.appendLine(uri, session, `${prefix}[kubectl logs exited with code ${code}]`);
+            }
+        });
+        process.on('error', (err) => {
+            vscode.window.showErrorMessage(`Failed to get logs for ${podName}: ${err.message}`);
+        });
+        return true;
+    }
+
+    private append(uri : vscode.Uri, session : LogSession, stream : LogStream, text : string) : void {
+        const lines = (stream.partialLine + text).split('\n');
+        stream.partialLine = lines.pop();
+        for (const line of lines) {
+            this.appendLine(uri, session, stream.prefix + line);
+        }
+    }
+
+    private appendLine(uri : vscode.Uri, session : LogSession, line : string) : void {
+        session.lines.push(line);
+        if (session.lines.length > MAX_LOG_LINES) {
+            session.lines.splice(0, session.lines.length - MAX_LOG_LINES);
+        }
+        this.scheduleUpdate(uri);
+    }
+
+    private scheduleUpdate(uri : vscode.Uri) : void {
+        const key = uri.toString();
+        if (this.pendingUpdates.has(key)) {
+            return;
+        }
+        this.pendingUpdates.set(key, setTimeout(() => {
+            this.pendingUpdates.delete(key);
+            this._onDidChange.fire(uri);
+        }, UPDATE_DELAY_MS));
+    }
+
+    private decorate(uri : vscode.Uri) : void {
+        const session = this.sessions.get(uri.toString());
+        if (!session || session.prefixes.length === 0) {
+            return;
+        }
+        const editors = vscode.window.visibleTextEditors.filter((e) => e.document.uri.toString() === uri.toString());
+        if (editors.length === 0) {
+            return;
+        }
+        const doc = editors[0].document;
+        const ranges : vscode.Range[][] = this.prefixDecorations.map((_) => []);
+        for (let line = 0; line < doc.lineCount; ++line) {
+            const text = doc.lineAt(line).text;
+            const prefixIndex = session.prefixes.findIndex((p) => text.startsWith(p));
+            if (prefixIndex >= 0) {
+                const colourIndex = prefixIndex % this.prefixDecorations.length;
+                ranges[colourIndex].push(new vscode.Range(line, 0, line, session.prefixes[prefixIndex].length - 1));
+            }
+        }
+        for (const editor of editors) {
+            this.prefixDecorations.forEach((d, i) => editor.setDecorations(d, ranges[i]));
+        }
+    }
+}
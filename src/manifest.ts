@@ -0,0 +1,214 @@
+import * as yaml from 'js-yaml';
+
+/**
+ * A document in a manifest, with its position in the text.
+ */
+export interface ManifestDocument {
+    readonly object : any;
+    readonly startOffset : number;
+    readonly endOffset : number;
+}
+
+/**
+ * A Kubernetes object defined in a manifest, with its position in the text.
+ */
+export interface ManifestObject extends ManifestDocument {
+    readonly resourceId : string;
+}
+
+/**
+ * The location of a field within an object, e.g. ['spec', 'containers', 0, 'image'].
+ */
+export type FieldPath = (string | number)[];
+
+export interface TextRange {
+    readonly startOffset : number;
+    readonly endOffset : number;
+}
+
+// A YAML document separator: '---' on its own line, optionally followed by a comment.
+const DOCUMENT_SEPARATOR = /^---[ \t]*(?:#.*)?$/gm;
+
+/**
+ * Gets the resource ID (e.g. 'deployment/myapp') of a parsed object, or undefined if it
+ * is not a named Kubernetes object.
+ */
+export function resourceId(obj : any) : string | undefined {
+    if (!obj || !obj.kind || !obj.metadata || !obj.metadata.name) {
+        return undefined;
+    }
+    return `${obj.kind.toLowerCase()}/${obj.metadata.name}`;
+}
+
+/**
+ * Finds the named Kubernetes objects in a manifest, which may be JSON or
+ * a multi-document YAML file.  Throws if any document is not valid YAML.
+ */
+export function parseManifest(text : string) : ManifestObject[] {
+    return parseDocuments(text)
+        .filter((d) => resourceId(d.object))
+        .map((d) => Object.assign({ resourceId: resourceId(d.object) }, d));
+}
+
+/**
+ * Parses each non-empty document in a manifest.  Throws if any document is not valid YAML.
+ */
+export function parseDocuments(text : string) : ManifestDocument[] {
+    const documents : ManifestDocument[] = [];
+    for (const range of splitDocuments(text)) {
+        yaml.safeLoadAll(text.substring(range.startOffset, range.endOffset), (obj) => {
+            if (obj) {
+                documents.push({ object: obj, startOffset: range.startOffset, endOffset: range.endOffset });
+            }
+        });
+    }
+    return documents;
+}
+
+/**
+ * Gets the object whose document contains the given offset, if any.
+ */
+export function objectAt(objects : ManifestObject[], offset : number) : ManifestObject | undefined {
+    return objects.find((o) => o.startOffset <= offset && offset <= o.endOffset);
+}
+
+/**
+ * Finds where a field is in the text of a document, for reporting problems with it.  If
+ * the field is not found, returns the location of its nearest ancestor which is.
+ */
+export function locateField(text : string, document : TextRange, path : FieldPath) : TextRange {
+    const documentText = text.substring(document.startOffset, document.endOffset);
+    const range = documentText.trim().startsWith('{') ?
+        locateJsonField(documentText, path) :
+        locateYamlField(documentText, path);
+    return { startOffset: document.startOffset + range.startOffset, endOffset: document.startOffset + range.endOffset };
+}
+
+interface YamlLine {
+    readonly offset : number;
+    readonly text : string;
+    readonly indent : number;
+    readonly isContent : boolean;
+}
+
+// Follows the path through the YAML block structure using indentation.  Flow style
+// collections ({ } and [ ]) are not followed: problems inside them are reported on the
+// key which contains them.
+function locateYamlField(text : string, path : FieldPath) : TextRange {
+    const lines : YamlLine[] = [];
+    let offset = 0;
+    for (const line of text.split('\n')) {
+        const indent = line.length - line.replace(/^\s*/, '').length;
+        const trimmed = line.trim();
+        lines.push({ offset: offset, text: line, indent: indent, isContent: trimmed.length > 0 && !trimmed.startsWith('#') });
+        offset += line.length + 1;
+    }
+
+    const first = lines.find((l) => l.isContent);
+    let found : TextRange = first ?
+        { startOffset: first.offset + first.indent, endOffset: lineEnd(first) } :
+        { startOffset: 0, endOffset: 0 };
+
+    // The lines in which to look for the next path element.  If the scope is a sequence item,
+    // the content of its first line starts after the '- '.
+    let from = 0;
+    let to = lines.length;
+    let itemContentColumn : number | undefined = undefined;
+
+    for (const element of path) {
+        const column = (i : number) => (i === from && itemContentColumn !== undefined) ? itemContentColumn : lines[i].indent;
+        const scopeLines = lineNumbers(from, to).filter((i) => lines[i].isContent);
+        if (scopeLines.length === 0) {
+            break;
+        }
+
+        if (typeof element === 'number') {
+            const dashColumn = column(scopeLines[0]);
+            const items = scopeLines.filter((i) => column(i) === dashColumn && /^-(\s|$)/.test(lines[i].text.substring(dashColumn)));
+            if (element >= items.length) {
+                break;
+            }
+            const itemLine = items[element];
+            const afterDash = lines[itemLine].text.substring(dashColumn + 1);
+            const contentColumn = dashColumn + 1 + (afterDash.length - afterDash.replace(/^\s*/, '').length);
+            found = { startOffset: lines[itemLine].offset + dashColumn, endOffset: lineEnd(lines[itemLine]) };
+            to = element + 1 < items.length ? items[element + 1] : to;
+            if (afterDash.trim().length > 0) {
+                from = itemLine;
+                itemContentColumn = contentColumn;
+            } else {
+                from = itemLine + 1;
+                itemContentColumn = undefined;
+            }
+        } else {
+            const keyColumn = column(scopeLines[0]);
+            const keyLine = scopeLines.find((i) => column(i) === keyColumn && yamlKey(lines[i].text.substring(keyColumn)) === element);
+            if (keyLine === undefined) {
+                break;
+            }
+            found = { startOffset: lines[keyLine].offset + keyColumn, endOffset: lines[keyLine].offset + keyColumn + lines[keyLine].text.substring(keyColumn).indexOf(':') };
+            const end = scopeLines.find((i) => i > keyLine && (lines[i].indent < keyColumn || (lines[i].indent === keyColumn && !lines[i].text.substring(keyColumn).startsWith('-'))));
+            from = keyLine + 1;
+            to = end === undefined ? to : end;
+            itemContentColumn = undefined;
+        }
+    }
+
+    return found;
+}
+
+function lineEnd(line : YamlLine) : number {
+    return line.offset + line.text.replace(/\s+$/, '').length;
+}
+
+function yamlKey(text : string) : string | undefined {
+    const match = /^(["']?)([^"':]+)\1\s*:(\s|$)/.exec(text);
+    return match ? match[2] : undefined;
+}
+
+// JSON manifests are located by searching for each key in turn, which is approximate
+// but good enough to put a problem on the right line in all but unusual documents.
+function locateJsonField(text : string, path : FieldPath) : TextRange {
+    const firstBrace = text.indexOf('{');
+    let found : TextRange = { startOffset: firstBrace, endOffset: firstBrace + 1 };
+    let position = firstBrace;
+    for (const element of path) {
+        if (typeof element === 'number') {
+            continue;
+        }
+        const pattern = new RegExp(`"${escapeRegExp(element)}"\\s*:`, 'g');
+        pattern.lastIndex = position;
+        const match = pattern.exec(text);
+        if (!match) {
+            break;
+        }
+        found = { startOffset: match.index, endOffset: match.index + element.length + 2 };
+        position = match.index + match[0].length;
+    }
+    return found;
+}
+
+function escapeRegExp(text : string) : string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function lineNumbers(from : number, to : number) : number[] {
+    const result : number[] = [];
+    for (let i = from; i < to; ++i) {
+        result.push(i);
+    }
+    return result;
+}
+
+function splitDocuments(text : string) : TextRange[] {
+    const documents = [];
+    let startOffset = 0;
+    let match : RegExpExecArray | null;
+    DOCUMENT_SEPARATOR.lastIndex = 0;
+    while ((match = DOCUMENT_SEPARATOR.exec(text)) !== null) {
+        documents.push({ startOffset: startOffset, endOffset: match.index });
+        startOffset = match.index + match[0].length;
+    }
+    documents.push({ startOffset: startOffset, endOffset: text.length });
+    return documents;
+}
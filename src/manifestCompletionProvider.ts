@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+
+import { KubernetesSchema, TypeSchema, hasProperties, typeAtPath, typeName } from './schema';
+import { LineSource, topLevelValue, yamlFieldPath } from './yamlNavigation';
+
+export interface FieldCompletion {
+    readonly name : string;
+    readonly type : string;
+    readonly description? : string;
+}
+
+/**
+ * Gets the fields which can go at a position in a Kubernetes YAML document, from the
+ * schema of the document's kind.  The document is read by indentation, so it doesn't
+ * need to parse.
+ *
+ * @param indent The indentation of the new field.
+ */
+export function fieldCompletions(schema : KubernetesSchema, document : LineSource, line : number, indent : number) : FieldCompletion[] {
+    const apiVersion = topLevelValue(document, line, 'apiVersion');
+    const kind = topLevelValue(document, line, 'kind');
+    const kindSchema = (apiVersion && kind) ? schema.findKind(apiVersion, kind) : undefined;
+    if (!kindSchema) {
+        return [];
+    }
+
+    const type = typeAtPath(schema, kindSchema.definition, yamlFieldPath(document, line, indent));
+    if (!type || !hasProperties(type)) {
+        return [];
+    }
+
+    return Object.keys(type.properties).map((name) => {
+        const property : TypeSchema = type.properties[name];
+        return { name: name, type: typeName(property), description: schema.resolve(property).description };
+    });
+}
+
+/**
+ * Gets the values which can go in a top-level kind or apiVersion field.  API versions
+ * are limited to those which have the document's kind, if it has one.
+ */
+export function kindCompletions(schema : KubernetesSchema, document : LineSource, line : number, field : 'kind' | 'apiVersion') : string[] {
+    const kinds = schema.kinds();
+    if (field === 'kind') {
+        return unique(kinds.map((k) => k.kind));
+    }
+    const kind = topLevelValue(document, line, 'kind');
+    const matching = kinds.filter((k) => k.kind === kind);
+    return unique((matching.length > 0 ? matching : kinds).map((k) => k.apiVersion));
+}
+
+function unique(values : string[]) : string[] {
+    return values.filter((v, index) => values.indexOf(v) === index).sort();
+}
+
+// Completes field names, and kinds and API versions, in Kubernetes YAML from the schema used by Explain.
+export class ManifestCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private readonly schema : () => Promise<KubernetesSchema>) {
+    }
+
+    async provideCompletionItems(document : vscode.TextDocument, position : vscode.Position) : Promise<vscode.CompletionItem[]> {
+        if (document.getText().indexOf('{{') >= 0) {
+            return [];  // Helm templates have their own completion
+        }
+
+        const textBefore = document.lineAt(position.line).text.substring(0, position.character);
+
+        const valueMatch = /^(kind|apiVersion)\s*:\s*([^\s#]*)$/.exec(textBefore);
+        if (valueMatch) {
+            const schema = await this.schema();
+            return kindCompletions(schema, document, position.line, valueMatch[1] as 'kind' | 'apiVersion')
+                .map((value) => new vscode.CompletionItem(value, vscode.CompletionItemKind.Value));
+        }
+
+        const keyMatch = /^([ -]*)[\w.\/-]*$/.exec(textBefore);
+        if (keyMatch) {
+            const schema = await this.schema();
+            return fieldCompletions(schema, document, position.line, keyMatch[1].length).map((field) => {
+                const item = new vscode.CompletionItem(field.name, vscode.CompletionItemKind.Property);
+                item.detail = field.type;
+                item.documentation = field.description ? new vscode.MarkdownString(field.description) : undefined;
+                item.insertText = field.name + ': ';
+                return item;
+            });
+        }
+
+        return [];
+    }
+}
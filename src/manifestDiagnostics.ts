@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+
+import * as manifest from './manifest';
+import { KubernetesSchema, TypeSchema, hasProperties } from './schema';
+
+export interface SchemaProblem {
+    readonly path : manifest.FieldPath;
+    readonly message : string;
+    readonly severity : 'error' | 'warning';
+}
+
+// Languages which may contain Kubernetes manifests.  This extension registers .yaml
+// files as 'helm', so those need checking too, but not if they contain templates.
+const MANIFEST_LANGUAGES = ['yaml', 'helm', 'json'];
+
+const VALIDATE_DELAY_MS = 500;
+
+/**
+ * Checks a Kubernetes object against the schema.  Objects whose kind is not in the
+ * schema, such as custom resources, are not checked.
+ */
+export function validateObject(schema : KubernetesSchema, obj : any) : SchemaProblem[] {
+    if (!obj || typeof obj !== 'object' || Array.isArray(obj)) {
+        return [];
+    }
+    if (!obj.kind) {
+        return [];
+    }
+    if (!obj.apiVersion) {
+        // Other YAML files may have a 'kind' field, so only report this if it's a Kubernetes kind.
+        const isKubernetesKind = schema.kinds().some((k) => k.kind === obj.kind);
+        return isKubernetesKind ? [ { path: [], message: 'Missing required field apiVersion', severity: 'error' } ] : [];
+    }
+
+    const kindSchema = schema.findKind(obj.apiVersion, obj.kind);
+    if (!kindSchema) {
+        const kinds = schema.kinds();
+        const apiVersions = kinds.filter((k) => k.kind === obj.kind).map((k) => k.apiVersion);
+        if (apiVersions.length > 0) {
+            return [ { path: ['apiVersion'], message: `${obj.kind} is not in API version ${obj.apiVersion}. Valid API versions are: ${apiVersions.join(', ')}`, severity: 'error' } ];
+        }
+        if (kinds.some((k) => k.apiVersion === obj.apiVersion)) {
+            return [ { path: ['kind'], message: `Unknown kind ${obj.kind} in API version ${obj.apiVersion}`, severity: 'error' } ];
+        }
+        return [];
+    }
+
+    const problems : SchemaProblem[] = [];
+    validateValue(schema, kindSchema.definition, obj, [], problems);
+    return problems;
+}
+
+function validateValue(schema : KubernetesSchema, property : TypeSchema, value : any, path : manifest.FieldPath, problems : SchemaProblem[]) : void {
+    if (value === null || value === undefined) {
+        return;  // an explicit null leaves the field unset
+    }
+
+    const type = schema.resolve(property);
+    const expected = type.type || (hasProperties(type) ? 'object' : undefined);
+    if (!expected) {
+        return;
+    }
+
+    if (!isOfType(value, expected)) {
+        problems.push({ path: path, message: `Expected ${article(expected)} but found ${article(jsonType(value))}`, severity: 'error' });
+        return;
+    }
+
+    if (expected === 'array' && type.items) {
+        value.forEach((item, index) => validateValue(schema, type.items, item, path.concat([index]), problems));
+    }
+
+    if (expected === 'object' && hasProperties(type)) {
+        for (const key of Object.keys(value)) {
+            const childProperty = type.properties[key];
+            if (childProperty) {
+                validateValue(schema, childProperty, value[key], path.concat([key]), problems);
+            } else {
+                problems.push({ path: path.concat([key]), message: `Unknown field ${key}`, severity: 'warning' });
+            }
+        }
+        for (const required of type.required || []) {
+            if (value[required] === undefined) {
+                problems.push({ path: path, message: `Missing required field ${required}`, severity: 'error' });
+            }
+        }
+    }
+}
+
+function isOfType(value : any, expected : string) : boolean {
+    switch (expected) {
+        case 'object':
+            return typeof value === 'object' && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'string':
+            // int-or-string and quantity fields are declared as strings but
+            // accept numbers, and Swagger 1.2 schemas don't say which they are.
+            return typeof value === 'string' || typeof value === 'number';
+        case 'integer':
+            return Number.isInteger(value);
+        case 'number':
+            return typeof value === 'number';
+        case 'boolean':
+            return typeof value === 'boolean';
+        default:
+            return true;
+    }
+}
+
+function jsonType(value : any) : string {
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? 'integer' : 'number';
+    }
+    return typeof value;
+}
+
+function article(typeName : string) : string {
+    return (/^[aeiou]/.test(typeName) ? 'an ' : 'a ') + typeName;
+}
+
+// Reports schema problems in open manifests to the Problems panel.
+export class ManifestDiagnosticsProvider implements vscode.Disposable {
+    private readonly diagnostics : vscode.DiagnosticCollection;
+    private readonly pending = new Map<string, NodeJS.Timer>();
+    private readonly subscriptions : vscode.Disposable[];
+
+    constructor(private readonly schema : () => Promise<KubernetesSchema>) {
+        this.diagnostics = vscode.languages.createDiagnosticCollection('kubernetes');
+        this.subscriptions = [
+            vscode.workspace.onDidOpenTextDocument((doc) => this.validate(doc)),
+            vscode.workspace.onDidChangeTextDocument((e) => this.scheduleValidate(e.document)),
+            vscode.workspace.onDidCloseTextDocument((doc) => {
+                this.cancelPending(doc);
+                this.diagnostics.delete(doc.uri);
+            })
+        ];
+        vscode.workspace.textDocuments.forEach((doc) => this.validate(doc));
+    }
+
+    dispose() : void {
+        this.pending.forEach((timer) => clearTimeout(timer));
+        this.pending.clear();
+        this.subscriptions.forEach((s) => s.dispose());
+        this.diagnostics.dispose();
+    }
+
+    async validate(document : vscode.TextDocument) : Promise<void> {
+        if (MANIFEST_LANGUAGES.indexOf(document.languageId) < 0) {
+            return;
+        }
+
+        const text = document.getText();
+        if (text.indexOf('{{') >= 0) {
+            this.diagnostics.delete(document.uri);  // a Helm template, which can't be checked until it's rendered
+            return;
+        }
+
+        let documents : manifest.ManifestDocument[];
+        try {
+            documents = manifest.parseDocuments(text);
+        } catch (ex) {
+            return;  // leave the last results until the syntax is fixed
+        }
+
+        const schema = await this.schema();
+        if (document.isClosed) {
+            return;
+        }
+
+        const diagnostics : vscode.Diagnostic[] = [];
+        for (const d of documents) {
+            for (const problem of validateObject(schema, d.object)) {
+                const location = manifest.locateField(text, d, problem.path);
+                const range = new vscode.Range(document.positionAt(location.startOffset), document.positionAt(location.endOffset));
+                const severity = problem.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning;
+                const diagnostic = new vscode.Diagnostic(range, problem.message, severity);
+                diagnostic.source = 'kubernetes';
+                diagnostics.push(diagnostic);
+            }
+        }
+        this.diagnostics.set(document.uri, diagnostics);
+    }
+
+    private scheduleValidate(document : vscode.TextDocument) : void {
+        this.cancelPending(document);
+        this.pending.set(document.uri.toString(), setTimeout(() => {
+            this.pending.delete(document.uri.toString());
+            this.validate(document);
+        }, VALIDATE_DELAY_MS));
+    }
+
+    private cancelPending(document : vscode.TextDocument) : void {
+        const key = document.uri.toString();
+        const timer = this.pending.get(key);
+        if (timer) {
+            clearTimeout(timer);
+            this.pending.delete(key);
+        }
+    }
+}
@@ -0,0 +1,198 @@
+import * as vscode from 'vscode';
+import { ChildProcess } from 'child_process';
+
+import { Kubectl } from './kubectl';
+import * as kubectlUtils from './kubectlUtils';
+
+export interface PortMapping {
+    readonly localPort : number;
+    readonly targetPort : number;
+}
+
+export interface PortForwardSession {
+    readonly id : number;
+    readonly target : string;
+    readonly namespace? : string;
+    readonly ports : PortMapping[];
+}
+
+interface RunningSession extends PortForwardSession {
+    readonly process : ChildProcess;
+}
+
+// How long to wait for kubectl to report that forwarding has started before assuming it has.
+const STARTUP_TIMEOUT_MS = 10000;
+
+/**
+ * Parses port mappings in kubectl port-forward syntax: a comma or space separated list of
+ * 'port' or 'localPort:targetPort' entries. Returns undefined if any entry is invalid.
+ */
+export function parsePortMappings(text : string) : PortMapping[] | undefined {
+    const entries = text.split(/[\s,]+/).filter((e) => e.length > 0);
+    if (entries.length === 0) {
+        return undefined;
+    }
+    const mappings : PortMapping[] = [];
+    for (const entry of entries) {
+        const bits = entry.split(':');
+        if (bits.length > 2) {
+            return undefined;
+        }
+        const localPort = bits[0].length > 0 ? parsePort(bits[0]) : 0;  // ':80' lets kubectl choose the local port
+        const targetPort = parsePort(bits[bits.length - 1]);
+        if (localPort === undefined || !targetPort) {
+            return undefined;
+        }
+        mappings.push({ localPort: localPort, targetPort: targetPort });
+    }
+    return mappings;
+}
+
+function parsePort(text : string) : number | undefined {
+    if (!/^\d+$/.test(text)) {
+        return undefined;
+    }
+    const port = Number.parseInt(text, 10);
+    return (port >= 0 && port <= 65535) ? port : undefined;
+}
+
+export function formatPortMappings(ports : PortMapping[]) : string {
+    return ports.map((p) => p.localPort ? `${p.localPort}:${p.targetPort}` : `:${p.targetPort}`).join(' ');
+}
+
+/**
+ * Gets the ports a pod, workload or service declares, for suggesting what to forward.
+ */
+export function declaredPorts(resource : kubectlUtils.KubernetesResource) : number[] {
+    const spec = resource.spec || {};
+    if (resource.kind === 'Service') {
+        return unique((spec.ports || []).map((p) => p.port));
+    }
+    const podSpec = resource.kind === 'Pod' ? spec : (spec.template && spec.template.spec) || {};
+    const containerPorts = (podSpec.containers || []).map((c) => (c.ports || []).map((p) => p.containerPort));
+    return unique([].concat(...containerPorts));
+}
+
+function unique(ports : number[]) : number[] {
+    return ports.filter((p, i) => p && ports.indexOf(p) === i);
+}
+
+// Tracks the kubectl port-forward processes started by the extension, so that
+// they can be listed and stopped, and so none are left running on shutdown.
+export class PortForwardManager implements vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    private readonly running : RunningSession[] = [];
+    private nextId = 1;
+
+    constructor(private readonly kubectl : Kubectl) {
+    }
+
+    get onDidChange() : vscode.Event<void> {
+        return this._onDidChange.event;
+    }
+
+    sessions() : PortForwardSession[] {
+        return this.running.slice();
+    }
+
+    /**
+     * Starts forwarding to a target such as 'pod/mypod' or 'service/myservice'. Resolves
+     * to undefined if kubectl exits before forwarding starts; the error is reported to the user.
+     */
+    async start(target : string, namespace : string | undefined, ports : PortMapping[]) : Promise<PortForwardSession | undefined> {
+        const namespaceArgs = namespace ? ['-n', namespace] : [];
+        const portArgs = ports.map((p) => p.localPort ? `${p.localPort}:${p.targetPort}` : `:${p.targetPort}`);
+        const process = await this.kubectl.spawnAsChild(['port-forward', target, ...namespaceArgs, ...portArgs]);
+        if (!process) {
+            return undefined;
+        }
+
+        const session : RunningSession = { id: this.nextId++, target: target, namespace: namespace, ports: ports, process: process };
+        let stderr = '';
+        process.stderr.on('data', (data) => { stderr += data.toString(); });
+
+        const started = await new Promise<boolean>((resolve) => {
+            const timer = setTimeout(() => resolve(true), STARTUP_TIMEOUT_MS);
+            process.stdout.once('data', () => { clearTimeout(timer); resolve(true); });
+            process.once('exit', () => { clearTimeout(timer); resolve(false); });
+            process.once('error', () => { clearTimeout(timer); resolve(false); });
+        });
+
+        if (!started) {
+            vscode.window.showErrorMessage(`Port forwarding to ${target} failed: ${stderr.trim() || 'kubectl exited unexpectedly'}`);
+            return undefined;
+        }
+
+        this.running.push(session);
+        process.once('exit', () => {
+            if (this.remove(session)) {
+                vscode.window.showWarningMessage(`Port forwarding to ${target} (${formatPortMappings(ports)}) stopped: ${stderr.trim() || 'kubectl exited'}`);
+            }
+        });
+        this._onDidChange.fire();
+        return session;
+    }
+
+    stop(session : PortForwardSession) : void {
+        const running = this.running.find((s) => s.id === session.id);
+        if (running && this.remove(running)) {
+            running.process.kill();
+        }
+    }
+
+    stopAll() : void {
+        for (const session of this.running.slice()) {
+            this.stop(session);
+        }
+    }
+
+    dispose() : void {
+        this.stopAll();
+        this._onDidChange.dispose();
+    }
+
+    private remove(session : RunningSession) : boolean {
+        const index = this.running.indexOf(session);
+        if (index < 0) {
+            return false;
+        }
+        this.running.splice(index, 1);
+        this._onDidChange.fire();
+        return true;
+    }
+}
+
+// Shows the number of running port forwards in the status bar.  Clicking it lets
+// the user pick a forward to stop.
+export class PortForwardStatusBar implements vscode.Disposable {
+    private readonly item : vscode.StatusBarItem;
+    private readonly subscription : vscode.Disposable;
+
+    constructor(private readonly manager : PortForwardManager, stopCommand : string) {
+        this.item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+        this.item.command = stopCommand;
+        this.subscription = manager.onDidChange(() => this.update());
+        this.update();
+    }
+
+    dispose() : void {
+        this.subscription.dispose();
+        this.item.dispose();
+    }
+
+    private update() : void {
+        const sessions = this.manager.sessions();
+        if (sessions.length === 0) {
+            this.item.hide();
+            return;
+        }
+        this.item.text = `$(plug) ${sessions.length}`;
+        this.item.tooltip = 'Kubernetes port forwards (click to stop):\n' + sessions.map(describeSession).join('\n');
+        this.item.show();
+    }
+}
+
+export function describeSession(session : PortForwardSession) : string {
+    const namespace = session.namespace ? ` (${session.namespace})` : '';
+    return `${session.target}${namespace} ${formatPortMappings(session.ports)}`;
+}
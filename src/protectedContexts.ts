@@ -0,0 +1,69 @@
+import * as vscode from 'vscode';
+
+import { host as defaultHost, Host } from './host';
+import * as kubeconfig from './kubeconfig';
+
+const PROTECTED_CONTEXTS_SETTING = 'vs-kubernetes.protected-contexts';
+
+/**
+ * The names of protected contexts, from settings.  Names can contain * and ? wildcards,
+ * e.g. 'prod-*'.
+ */
+export function protectedContextPatterns(host : Host = defaultHost) : string[] {
+    const setting = host.getConfiguration('vs-kubernetes')[PROTECTED_CONTEXTS_SETTING];
+    return (Array.isArray(setting) ? setting : [ setting ]).filter((p) => !!p);
+}
+
+export function isProtectedContext(contextName : string | undefined, patterns : string[]) : boolean {
+    if (!contextName) {
+        return false;
+    }
+    return patterns.some((p) => wildcardRegExp(p).test(contextName));
+}
+
+/**
+ * Checks that the user really means to run a destructive or mutating command.  If the current
+ * context is protected, they must type its name; otherwise there's nothing to confirm.
+ *
+ * @param action What the command will do, e.g. 'Delete deployment/web'.
+ */
+export async function confirmProtectedContext(action : string, host : Host = defaultHost) : Promise<boolean> {
+    return confirmContext(action, await currentContextName(), host);
+}
+
+/**
+ * Like confirmProtectedContext, for a command which runs in a given context rather than the
+ * current one.
+ */
+export async function confirmContext(action : string, contextName : string | undefined, host : Host = defaultHost) : Promise<boolean> {
+    if (!isProtectedContext(contextName, protectedContextPatterns(host))) {
+        return true;
+    }
+    const typed = await vscode.window.showInputBox({
+        prompt: `${action} in protected context '${contextName}'? Type the context name to confirm.`,
+        placeHolder: contextName,
+        ignoreFocusOut: true,
+        validateInput: (value) => contextName.startsWith(value) ? null : `Type '${contextName}' to confirm, or press Escape to cancel`
+    });
+    if (typed !== contextName) {
+        if (typed !== undefined) {
+            host.showInformationMessage(`${action} cancelled.`);
+        }
+        return false;
+    }
+    return true;
+}
+
+export async function currentContextName() : Promise<string | undefined> {
+    try {
+        const kc = await kubeconfig.readKubectlConfig();
+        return kc.currentContext;
+    } catch (ex) {
+        return undefined;  // kubectl will report the problem
+    }
+}
+
+function wildcardRegExp(pattern : string) : RegExp {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`);
+}
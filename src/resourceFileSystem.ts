@@ -0,0 +1,169 @@
+import * as tmp from 'tmp';
+import * as vscode from 'vscode';
+
+import { OutputFormat } from './cleanManifest';
+import { FS } from './fs';
+import { host as defaultHost, Host } from './host';
+import { Kubectl } from './kubectl';
+import { confirmContext } from './protectedContexts';
+
+export const K8S_RESOURCE_SCHEME = 'k8s';
+
+// Stands in for the namespace of objects which don't belong to one, such as nodes.  It can't
+// be the name of a namespace.
+const CLUSTER_SCOPED_SEGMENT = '_';
+
+export interface ResourceLocation {
+    readonly context : string;
+    /** The object's namespace, or undefined if its kind is not namespaced. */
+    readonly namespace? : string;
+    readonly kind : string;
+    readonly name : string;
+    readonly format : OutputFormat;
+}
+
+/**
+ * The URI under which a live object is edited: k8s://<context>/<namespace>/<kind>/<name>.yaml,
+ * or .json for JSON.  Objects which don't belong to a namespace have _ in place of it.
+ */
+export function resourceUri(location : ResourceLocation) : vscode.Uri {
+    const segments = [ location.namespace || CLUSTER_SCOPED_SEGMENT, location.kind, `${location.name}.${location.format}` ].map(encodeURIComponent);
+    return vscode.Uri.parse(`${K8S_RESOURCE_SCHEME}://${encodeURIComponent(location.context)}/${segments.join('/')}`);
+}
+
+export function parseResourceUri(uri : { readonly authority : string, readonly path : string }) : ResourceLocation | undefined {
+    const segments = uri.path.split('/').filter((s) => s.length > 0);
+    const fileName = segments.length === 3 ? /^(.+)\.(yaml|json)$/.exec(segments[2]) : null;
+    if (!uri.authority || !fileName) {
+        return undefined;
+    }
+    return {
+        context: uri.authority,
+        namespace: segments[0] === CLUSTER_SCOPED_SEGMENT ? undefined : segments[0],
+        kind: segments[1],
+        name: fileName[1],
+        format: fileName[2] as OutputFormat
+    };
+}
+
+/**
+ * Whether kubectl failed because the object was changed in the cluster after the version
+ * being saved was loaded, so its resourceVersion no longer matches.
+ */
+export function isConflict(stderr : string) : boolean {
+    return /the object has been modified|\(Conflict\)/.test(stderr);
+}
+
+function resourceArgs(location : ResourceLocation) : string {
+    const namespaceArg = location.namespace ? ` --namespace ${location.namespace}` : '';
+    return `--context "${location.context}"${namespaceArg}`;
+}
+
+// Lets live objects be edited as if they were files.  Reading a file gets the object from
+// its cluster, and saving it replaces the object in the cluster.  The object's resourceVersion
+// is saved with it, so that if someone else has changed the object in the meantime, the save
+// fails rather than overwriting their change.
+export class ResourceFileSystemProvider implements vscode.FileSystemProvider {
+    private readonly _onDidChangeFile = new vscode.EventEmitter<vscode.FileChangeEvent[]>();
+    private readonly stats = new Map<string, vscode.FileStat>();
+
+    constructor(private readonly kubectl : Kubectl, private readonly fs : FS, private readonly host : Host = defaultHost) {
+    }
+
+    get onDidChangeFile() : vscode.Event<vscode.FileChangeEvent[]> {
+        return this._onDidChangeFile.event;
+    }
+
+    watch(uri : vscode.Uri, options : { recursive : boolean; excludes : string[] }) : vscode.Disposable {
+        return new vscode.Disposable(() => {});  // changes are only made by this provider, which reports them
+    }
+
+    stat(uri : vscode.Uri) : vscode.FileStat {
+        return this.stats.get(uri.toString()) || { type: vscode.FileType.File, ctime: 0, mtime: 0, size: 0 };
+    }
+
+    readDirectory(uri : vscode.Uri) : [string, vscode.FileType][] {
+        throw vscode.FileSystemError.FileNotADirectory(uri);
+    }
+
+    createDirectory(uri : vscode.Uri) : void {
+        throw vscode.FileSystemError.NoPermissions('Objects cannot be created by creating folders');
+    }
+
+    async readFile(uri : vscode.Uri) : Promise<Uint8Array> {
+        const location = this.locate(uri);
+        const sr = await this.kubectl.invokeAsync(`get ${location.kind}/${location.name} ${resourceArgs(location)} -o ${location.format}`);
+        if (!sr || sr.code !== 0) {
+            const message = sr ? sr.stderr.trim() : 'Unable to run kubectl';
+            throw /NotFound/.test(message) ? vscode.FileSystemError.FileNotFound(uri) : vscode.FileSystemError.Unavailable(message);
+        }
+        const content = Buffer.from(sr.stdout, 'utf8');
+        this.touch(uri, content.length);
+        return content;
+    }
+
+    async writeFile(uri : vscode.Uri, content : Uint8Array, options : { create : boolean, overwrite : boolean }) : Promise<void> {
+        const location = this.locate(uri);
+        const resourceId = `${location.kind}/${location.name}`;
+        if (!(await confirmContext(`Save ${resourceId}`, location.context, this.host))) {
+            throw vscode.FileSystemError.NoPermissions(`${resourceId} was not saved`);
+        }
+
+        const tempFile = tmp.fileSync({ prefix: `${location.name}-`, postfix: `.${location.format}` });
+        try {
+            this.fs.writeFileSync(tempFile.name, Buffer.from(content.buffer, content.byteOffset, content.byteLength));
+            const sr = await this.kubectl.invokeAsync(`replace -f "${tempFile.name}" ${resourceArgs(location)}`);
+            if (!sr || sr.code !== 0) {
+                const stderr = sr ? sr.stderr.trim() : 'Unable to run kubectl';
+                if (isConflict(stderr)) {
+                    this.reportConflict(uri, resourceId);
+                    throw new vscode.FileSystemError(`${resourceId} has been changed in the cluster since it was loaded. Reload it and make your changes again.`);
+                }
+                throw new vscode.FileSystemError(`Failed to save ${resourceId}: ${stderr}`);
+            }
+        } finally {
+            tempFile.removeCallback();
+        }
+
+        // The save gave the object a new resourceVersion, so the document needs to be reloaded
+        // before it can be saved again.
+        this.touch(uri, content.length);
+        this._onDidChangeFile.fire([ { type: vscode.FileChangeType.Changed, uri: uri } ]);
+    }
+
+    delete(uri : vscode.Uri, options : { recursive : boolean }) : void {
+        throw vscode.FileSystemError.NoPermissions('Use Kubernetes: Delete to delete objects');
+    }
+
+    rename(oldUri : vscode.Uri, newUri : vscode.Uri, options : { overwrite : boolean }) : void {
+        throw vscode.FileSystemError.NoPermissions('Objects cannot be renamed');
+    }
+
+    private locate(uri : vscode.Uri) : ResourceLocation {
+        const location = parseResourceUri(uri);
+        if (!location) {
+            throw vscode.FileSystemError.FileNotFound(uri);
+        }
+        return location;
+    }
+
+    private touch(uri : vscode.Uri, size : number) : void {
+        this.stats.set(uri.toString(), { type: vscode.FileType.File, ctime: 0, mtime: Date.now(), size: size });
+    }
+
+    private async reportConflict(uri : vscode.Uri, resourceId : string) : Promise<void> {
+        const choice = await this.host.showErrorMessage(`${resourceId} has been changed in the cluster since you loaded it, so your changes were not saved. Reload it to get the latest version.`, 'Reload');
+        if (choice === 'Reload') {
+            await reloadResource(uri);
+        }
+    }
+}
+
+/**
+ * Gets the latest version of a live object from the cluster, discarding any unsaved changes.
+ */
+export async function reloadResource(uri : vscode.Uri) : Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(document);
+    await vscode.commands.executeCommand('workbench.action.files.revert');
+}
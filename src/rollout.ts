@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+
+import { Kubectl } from './kubectl';
+import { ShellResult } from './shell';
+
+export interface RolloutRevision {
+    readonly revision : number;
+    readonly changeCause? : string;
+}
+
+export interface WorkloadContainer {
+    readonly name : string;
+    readonly image : string;
+    readonly init : boolean;
+}
+
+export interface RolloutResult {
+    readonly succeeded : boolean;
+    readonly cancelled : boolean;
+    readonly message : string;
+}
+
+function namespaceArgs(namespace : string | undefined) : string[] {
+    return namespace ? [ '--namespace', namespace ] : [];
+}
+
+function namespaceOption(namespace : string | undefined) : string {
+    return namespace ? ` --namespace ${namespace}` : '';
+}
+
+/**
+ * Parses the revision table from `kubectl rollout history`.  A revision with no change
+ * cause has an undefined changeCause.  The revisions are in the order kubectl lists them,
+ * oldest first.
+ */
+export function parseRolloutHistory(text : string) : RolloutRevision[] {
+    const revisions : RolloutRevision[] = [];
+    for (const line of text.split('\n')) {
+        const match = /^\s*(\d+)\s*(.*)$/.exec(line);
+        if (match) {
+            const changeCause = match[2].trim();
+            revisions.push({
+                revision: parseInt(match[1], 10),
+                changeCause: (changeCause && changeCause !== '<none>') ? changeCause : undefined
+            });
+        }
+    }
+    return revisions;
+}
+
+export async function getRolloutHistory(kubectl : Kubectl, resourceId : string, namespace : string | undefined) : Promise<RolloutRevision[] | ShellResult> {
+    const sr = await kubectl.invokeAsync(`rollout history ${resourceId}${namespaceOption(namespace)}`);
+    if (sr.code !== 0) {
+        return sr;
+    }
+    return parseRolloutHistory(sr.stdout);
+}
+
+/**
+ * Gets kubectl's description of the pod template of one revision of a workload.
+ */
+export async function getRevisionTemplate(kubectl : Kubectl, resourceId : string, namespace : string | undefined, revision : number) : Promise<string | ShellResult> {
+    const sr = await kubectl.invokeAsync(`rollout history ${resourceId}${namespaceOption(namespace)} --revision=${revision}`);
+    if (sr.code !== 0) {
+        return sr;
+    }
+    return sr.stdout;
+}
+
+/**
+ * Lists the containers, including init containers, in the pod template of a Deployment,
+ * DaemonSet or StatefulSet.
+ */
+export function workloadContainers(workload : any) : WorkloadContainer[] {
+    const podSpec = (workload.spec && workload.spec.template && workload.spec.template.spec) || {};
+    const containers = (podSpec.containers || []).map((c) => ({ name: c.name, image: c.image, init: false }));
+    const initContainers = (podSpec.initContainers || []).map((c) => ({ name: c.name, image: c.image, init: true }));
+    return containers.concat(initContainers);
+}
+
+export async function getWorkloadContainers(kubectl : Kubectl, resourceId : string, namespace : string | undefined) : Promise<WorkloadContainer[] | ShellResult> {
+    const sr = await kubectl.invokeAsync(`get ${resourceId}${namespaceOption(namespace)} -o json`);
+    if (sr.code !== 0) {
+        return sr;
+    }
+    return workloadContainers(JSON.parse(sr.stdout));
+}
+
+/**
+ * Shows the progress of a rollout in a notification until it completes, fails or the user
+ * cancels it.  Cancelling only stops watching: the rollout itself carries on.
+ */
+export async function watchRolloutStatus(kubectl : Kubectl, resourceId : string, namespace : string | undefined) : Promise<RolloutResult> {
+    const process = await kubectl.spawnAsChild([ 'rollout', 'status', resourceId, ...namespaceArgs(namespace), '--watch' ]);
+    if (!process) {
+        return { succeeded: false, cancelled: false, message: 'Unable to run kubectl' };
+    }
+
+    const progressOptions = { location: vscode.ProgressLocation.Notification, title: `Rollout of ${resourceId}`, cancellable: true };
+    return vscode.window.withProgress(progressOptions, (progress, token) => new Promise<RolloutResult>((resolve) => {
+        let lastLine = '';
+        let stderr = '';
+        let cancelled = false;
+        token.onCancellationRequested(() => {
+            cancelled = true;
+            process.kill();
+        });
+        process.stdout.on('data', (data) => {
+            const lines = data.toString().split('\n').map((l) => l.trim()).filter((l) => l.length > 0);
+            if (lines.length > 0) {
+                lastLine = lines[lines.length - 1];
+                progress.report({ message: lastLine });
+            }
+        });
+        process.stderr.on('data', (data) => { stderr += data.toString(); });
+        process.on('error', (err) => resolve({ succeeded: false, cancelled: false, message: err.message }));
+        process.on('close', (code) => {
+            if (cancelled) {
+                resolve({ succeeded: false, cancelled: true, message: `Stopped watching the rollout of ${resourceId}.` });
+            } else if (code === 0) {
+                resolve({ succeeded: true, cancelled: false, message: lastLine || `Rollout of ${resourceId} complete.` });
+            } else {
+                resolve({ succeeded: false, cancelled: false, message: stderr.trim() || lastLine || `kubectl exited with code ${code}` });
+            }
+        });
+    }));
+}
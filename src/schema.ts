@@ -0,0 +1,170 @@
+import * as v1 from './v1';
+
+/**
+ * A type or property in a Kubernetes API schema.  Swagger 1.2 models and
+ * Swagger 2.0 / OpenAPI definitions share this shape.
+ */
+export interface TypeSchema {
+    readonly description? : string;
+    readonly type? : string;
+    readonly format? : string;
+    readonly properties? : { [name : string] : TypeSchema };
+    readonly required? : string[];
+    readonly items? : TypeSchema;
+    readonly $ref? : string;
+}
+
+export interface KindSchema {
+    readonly apiVersion : string;
+    readonly kind : string;
+    readonly definition : TypeSchema;
+}
+
+/**
+ * The kinds and types of the Kubernetes API, from a swagger document.
+ */
+export interface KubernetesSchema {
+    kinds() : KindSchema[];
+    findKind(apiVersion : string, kind : string) : KindSchema | undefined;
+    /** Gets the type a $ref refers to, or undefined if it isn't in the schema. */
+    findDefinition(ref : string) : TypeSchema | undefined;
+    /** Follows the $ref of a property, if it has one, to the type it refers to. */
+    resolve(property : TypeSchema) : TypeSchema;
+}
+
+export function fromSwagger(swagger : any) : KubernetesSchema {
+    if (swagger.definitions) {
+        return new SwaggerSchema(swagger.definitions, openApiKinds(swagger.definitions), (ref) => ref.replace(/^#\/definitions\//, ''));
+    }
+    return new SwaggerSchema(swagger.models || {}, swagger12Kinds(swagger), (ref) => ref);
+}
+
+let bundled : KubernetesSchema | undefined = undefined;
+
+/**
+ * The core v1 schema shipped with the extension, for use when no cluster schema is available.
+ */
+export function bundledSchema() : KubernetesSchema {
+    if (!bundled) {
+        bundled = fromSwagger(v1.default);
+    }
+    return bundled;
+}
+
+/**
+ * Whether the type has named properties, as opposed to being a scalar or a free-form map.
+ */
+export function hasProperties(type : TypeSchema) : boolean {
+    return !!type.properties && Object.keys(type.properties).length > 0;
+}
+
+/**
+ * Gets a short description of a property's type, such as 'string' or 'Container[]'.
+ */
+export function typeName(property : TypeSchema) : string {
+    if (property.type === 'array' && property.items) {
+        return typeName(property.items) + '[]';
+    }
+    if (property.$ref) {
+        return property.$ref.substring(property.$ref.lastIndexOf('.') + 1);
+    }
+    return property.type || 'object';
+}
+
+/**
+ * Finds the type of the field at a path of names below a type, looking inside arrays
+ * along the way, so that ['spec', 'containers'] below a Pod is a Container.  Returns
+ * undefined if there is no such field.
+ */
+export function typeAtPath(schema : KubernetesSchema, type : TypeSchema, path : string[]) : TypeSchema | undefined {
+    let current = elementType(schema, type);
+    for (const name of path) {
+        const property = current.properties ? current.properties[name] : undefined;
+        if (!property) {
+            return undefined;
+        }
+        current = elementType(schema, property);
+    }
+    return current;
+}
+
+function elementType(schema : KubernetesSchema, property : TypeSchema) : TypeSchema {
+    const type = schema.resolve(property);
+    if (type.type === 'array' && type.items) {
+        return elementType(schema, type.items);
+    }
+    return type;
+}
+
+class SwaggerSchema implements KubernetesSchema {
+    constructor(
+        private readonly definitions : { [name : string] : TypeSchema },
+        private readonly kindList : KindSchema[],
+        private readonly definitionName : (ref : string) => string) {
+    }
+
+    kinds() : KindSchema[] {
+        return this.kindList;
+    }
+
+    findKind(apiVersion : string, kind : string) : KindSchema | undefined {
+        return this.kindList.find((k) => k.apiVersion === apiVersion && k.kind === kind);
+    }
+
+    findDefinition(ref : string) : TypeSchema | undefined {
+        return this.definitions[this.definitionName(ref)];
+    }
+
+    resolve(property : TypeSchema) : TypeSchema {
+        if (!property.$ref) {
+            return property;
+        }
+        const definition = this.findDefinition(property.$ref);
+        if (!definition) {
+            return { description: property.description };
+        }
+        return Object.assign({}, definition, { description: property.description || definition.description });
+    }
+}
+
+// Swagger 2.0 / OpenAPI documents tag each kind's definition with the API group and version.
+// Older ones (before Kubernetes 1.8) don't, but name definitions '<version>.<kind>', so in those
+// kinds are the definitions which have the standard type and object metadata, and the API group
+// isn't known.
+function openApiKinds(definitions : any) : KindSchema[] {
+    const kinds : KindSchema[] = [];
+    for (const name of Object.keys(definitions)) {
+        const definition = definitions[name];
+        for (const gvk of definition['x-kubernetes-group-version-kind'] || []) {
+            const apiVersion = gvk.group ? `${gvk.group}/${gvk.version}` : gvk.version;
+            kinds.push({ apiVersion: apiVersion, kind: gvk.kind, definition: definition });
+        }
+    }
+    if (kinds.length > 0) {
+        return kinds;
+    }
+    return Object.keys(definitions)
+        .filter((name) => isKindDefinition(definitions[name]))
+        .map((name) => {
+            const parts = name.split('.');
+            return { apiVersion: parts[parts.length - 2], kind: parts[parts.length - 1], definition: definitions[name] };
+        })
+        .filter((k) => k.apiVersion);
+}
+
+function isKindDefinition(definition : any) : boolean {
+    const properties = definition.properties || {};
+    return properties.kind && properties.apiVersion && properties.metadata;
+}
+
+// Swagger 1.2 documents cover a single API version, and models are named '<version>.<kind>'.
+// Kinds are the models which have the standard type and object metadata.
+function swagger12Kinds(swagger : any) : KindSchema[] {
+    const models = swagger.models || {};
+    const version = (swagger.apiVersion || '').split('/').pop();  // models are named by version without the group
+    const prefix = version + '.';
+    return Object.keys(models)
+        .filter((name) => name.startsWith(prefix))
+        .filter((name) => isKindDefinition(models[name]))
+        .map((name) => ({ apiVersion: swagger.apiVersion, kind: name.substring(prefix.length), definition: models[name] }));
+}
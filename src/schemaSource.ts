@@ -0,0 +1,152 @@
+import { FS } from './fs';
+import * as kubeconfig from './kubeconfig';
+import { Kubectl } from './kubectl';
+import { KubernetesSchema, bundledSchema, fromSwagger } from './schema';
+import { Shell } from './shell';
+
+export type SchemaOrigin = 'cluster' | 'cache' | 'bundled';
+
+export interface LoadedSchema {
+    readonly schema : KubernetesSchema;
+    readonly origin : SchemaOrigin;
+    /** The Kubernetes version of the schema, such as 'v1.12.1', if known. */
+    readonly version? : string;
+}
+
+// Downloaded schemas are kept per Kubernetes version, along with the version each
+// context's cluster was running when last contacted, so that a context's schema can be
+// found without reaching the cluster.
+const CACHE_DIR = ['.vs-kubernetes', 'schema-cache'];
+const CONTEXT_VERSIONS_FILE = 'context-versions.json';
+
+/**
+ * Gets the schema of the current context's cluster.  If the cluster can't be reached, uses
+ * the schema last downloaded for the context, or failing that the core v1 schema bundled
+ * with the extension.
+ */
+export async function loadSchema(kubectl : Kubectl, fs : FS, shell : Shell) : Promise<LoadedSchema> {
+    const contextName = await currentContext(fs, shell);
+
+    const version = await clusterVersion(kubectl);
+    if (version) {
+        const sr = await kubectl.invokeAsync('get --raw /openapi/v2');
+        const swagger = (sr && sr.code === 0) ? parseSwagger(sr.stdout) : undefined;
+        if (swagger) {
+            saveToCache(fs, shell, contextName, version, sr.stdout);
+            return { schema: fromSwagger(swagger), origin: 'cluster', version: version };
+        }
+    }
+
+    const cached = loadFromCache(fs, shell, contextName);
+    if (cached) {
+        return cached;
+    }
+
+    return { schema: bundledSchema(), origin: 'bundled' };
+}
+
+/**
+ * Describes where a schema came from, for showing alongside explanations.
+ */
+export function describeSchema(loaded : LoadedSchema) : string {
+    switch (loaded.origin) {
+        case 'cluster':
+            return `Kubernetes ${loaded.version} schema from the cluster`;
+        case 'cache':
+            return `Kubernetes ${loaded.version} schema cached from the cluster (the cluster could not be reached)`;
+        default:
+            return 'Core v1 schema bundled with the extension (no schema is available from the cluster)';
+    }
+}
+
+// Read from the kubeconfig files in use, as the explorer does, rather than by starting kubectl.
+async function currentContext(fs : FS, shell : Shell) : Promise<string | undefined> {
+    try {
+        const config = await kubeconfig.readKubectlConfig(fs, shell);
+        return config.currentContext;
+    } catch (ex) {
+        return undefined;
+    }
+}
+
+async function clusterVersion(kubectl : Kubectl) : Promise<string | undefined> {
+    const sr = await kubectl.invokeAsync('version -o json');
+    if (!sr || sr.code !== 0) {
+        return undefined;
+    }
+    try {
+        const serverVersion = JSON.parse(sr.stdout).serverVersion;
+        return serverVersion ? serverVersion.gitVersion : undefined;
+    } catch (ex) {
+        return undefined;
+    }
+}
+
+function parseSwagger(text : string) : any {
+    try {
+        const swagger = JSON.parse(text);
+        return swagger.definitions ? swagger : undefined;
+    } catch (ex) {
+        return undefined;
+    }
+}
+
+function loadFromCache(fs : FS, shell : Shell, contextName : string | undefined) : LoadedSchema | undefined {
+    if (!contextName) {
+        return undefined;
+    }
+    const version = readContextVersions(fs, shell)[contextName];
+    if (!version) {
+        return undefined;
+    }
+    const file = cachePath(shell, schemaFileName(version));
+    if (!fs.existsSync(file)) {
+        return undefined;
+    }
+    const swagger = parseSwagger(fs.readFileSync(file, 'utf8'));
+    if (!swagger) {
+        return undefined;
+    }
+    return { schema: fromSwagger(swagger), origin: 'cache', version: version };
+}
+
+// The cache only saves having to reach the cluster, so failing to write it isn't an error.
+function saveToCache(fs : FS, shell : Shell, contextName : string | undefined, version : string, swaggerText : string) : void {
+    try {
+        let dir = shell.home();
+        for (const d of CACHE_DIR) {
+            dir = shell.combinePath(dir, d);
+            if (!fs.existsSync(dir)) {
+                fs.mkdirSync(dir);
+            }
+        }
+        fs.writeFileSync(cachePath(shell, schemaFileName(version)), swaggerText);
+        if (contextName) {
+            const contextVersions = readContextVersions(fs, shell);
+            contextVersions[contextName] = version;
+            fs.writeFileSync(cachePath(shell, CONTEXT_VERSIONS_FILE), JSON.stringify(contextVersions, null, 2));
+        }
+    } catch (ex) {
+        // The schema is loaded from the cluster again next time.
+    }
+}
+
+function readContextVersions(fs : FS, shell : Shell) : { [contextName : string] : string } {
+    const file = cachePath(shell, CONTEXT_VERSIONS_FILE);
+    if (!fs.existsSync(file)) {
+        return {};
+    }
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (ex) {
+        return {};
+    }
+}
+
+function schemaFileName(version : string) : string {
+    return `openapi-${version.replace(/[^\w.-]/g, '_')}.json`;
+}
+
+function cachePath(shell : Shell, fileName : string) : string {
+    return shell.combinePath(shell.home(), CACHE_DIR.concat([fileName]).join('/'));
+}
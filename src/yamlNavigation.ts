@@ -0,0 +1,102 @@
+// Works out where a line is in the structure of a YAML document from indentation
+// alone, so that it works while the document is being edited and may not parse.
+
+export interface LineSource {
+    readonly lineCount : number;
+    lineAt(line : number) : { readonly text : string };
+}
+
+/**
+ * Finds the line of the mapping key which contains the given line, or -1 if it is
+ * at the top level.  Blank and comment lines are skipped.
+ *
+ * @param indent The indentation of the line, if different from its current text
+ *               (e.g. when only the text before the cursor counts).
+ */
+export function findParentYaml(document : LineSource, line : number, indent? : number) : number {
+    if (indent === undefined) {
+        indent = yamlIndentLevel(document.lineAt(line).text);
+    }
+    while (line >= 0) {
+        let txt = document.lineAt(line);
+        if (isContent(txt.text) && yamlIndentLevel(txt.text) < indent) {
+            return line;
+        }
+        line = line - 1;
+    }
+    return line;
+}
+
+export function yamlIndentLevel(str : string) : number {
+    let i = 0;
+
+    //eslint-disable-next-line no-constant-condition
+    while (true) {
+        if (str.length <= i || !isYamlIndentChar(str.charAt(i))) {
+            return i;
+        }
+        ++i;
+    }
+}
+
+function isYamlIndentChar(ch : string) : boolean {
+    return ch === ' ' || ch === '-';
+}
+
+function isContent(text : string) : boolean {
+    const trimmed = text.trim();
+    return trimmed.length > 0 && !trimmed.startsWith('#');
+}
+
+/**
+ * Gets the mapping key on a line, ignoring indentation and any sequence item dash.
+ */
+export function yamlKey(text : string) : string | undefined {
+    const match = /^[\s-]*(["']?)([^"':#]+)\1\s*:(\s|$)/.exec(text);
+    return match ? match[2].trim() : undefined;
+}
+
+/**
+ * Gets the keys of the mappings which contain the given line, outermost first.  Sequences
+ * don't appear in the path: ['spec', 'containers'] is the path of a container's fields.
+ */
+export function yamlFieldPath(document : LineSource, line : number, indent? : number) : string[] {
+    const path : string[] = [];
+    let parentLine = findParentYaml(document, line, indent);
+    while (parentLine >= 0) {
+        const key = yamlKey(document.lineAt(parentLine).text);
+        if (key === undefined) {
+            break;
+        }
+        path.unshift(key);
+        parentLine = findParentYaml(document, parentLine);
+    }
+    return path;
+}
+
+/**
+ * Gets the value of a top-level scalar field, such as kind, in the YAML document (of a
+ * multi-document file) which contains the given line.
+ */
+export function topLevelValue(document : LineSource, line : number, key : string) : string | undefined {
+    let start = line;
+    while (start > 0 && !isDocumentSeparator(document.lineAt(start).text)) {
+        --start;
+    }
+    const pattern = new RegExp(`^(["']?)${key}\\1\\s*:\\s*(["']?)([^"'#\\s]+)\\2`);
+    for (let i = start; i < document.lineCount; ++i) {
+        const text = document.lineAt(i).text;
+        if (i > start && isDocumentSeparator(text)) {
+            break;
+        }
+        const match = pattern.exec(text);
+        if (match) {
+            return match[3];
+        }
+    }
+    return undefined;
+}
+
+function isDocumentSeparator(text : string) : boolean {
+    return /^---[ \t]*(?:#.*)?$/.test(text);
+}
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as yaml from 'js-yaml';
+
+import * as fakes from './fakes';
+
+import * as cleanManifest from '../src/cleanManifest';
+
+const liveDeployment = {
+    apiVersion: "apps/v1",
+    kind: "Deployment",
+    metadata: {
+        name: "web",
+        namespace: "shop",
+        uid: "1234",
+        resourceVersion: "5678",
+        generation: 3,
+        creationTimestamp: "2018-12-01T10:00:00Z",
+        labels: { app: "web" },
+        annotations: {
+            "deployment.kubernetes.io/revision": "3",
+            "kubectl.kubernetes.io/last-applied-configuration": "{}",
+            team: "storefront"
+        },
+        managedFields: [ { manager: "kubectl" } ]
+    },
+    spec: {
+        replicas: 2,
+        progressDeadlineSeconds: 600,
+        revisionHistoryLimit: 10,
+        selector: { matchLabels: { app: "web" } },
+        strategy: { rollingUpdate: { maxSurge: "25%", maxUnavailable: "25%" }, type: "RollingUpdate" },
+        template: {
+            metadata: { creationTimestamp: null, labels: { app: "web" } },
+            spec: {
+                containers: [ {
+                    name: "web",
+                    image: "shop/web:1.2",
+                    imagePullPolicy: "IfNotPresent",
+                    ports: [ { containerPort: 80, protocol: "TCP" } ],
+                    resources: {},
+                    terminationMessagePath: "/dev/termination-log",
+                    terminationMessagePolicy: "File"
+                } ],
+                dnsPolicy: "ClusterFirst",
+                restartPolicy: "Always",
+                schedulerName: "default-scheduler",
+                securityContext: {},
+                terminationGracePeriodSeconds: 30
+            }
+        }
+    },
+    status: { replicas: 2, readyReplicas: 2 }
+};
+
+suite("clean manifest tests", () => {
+
+    suite("cleanManifest method", () => {
+
+        test("...it removes status, server metadata and generated annotations", () => {
+            const clean = cleanManifest.cleanManifest(liveDeployment);
+            assert.equal(clean.status, undefined);
+            assert.deepEqual(clean.metadata, { name: "web", namespace: "shop", labels: { app: "web" }, annotations: { team: "storefront" } });
+        });
+
+        test("...it removes fields which have their default values", () => {
+            const clean = cleanManifest.cleanManifest(liveDeployment);
+            assert.deepEqual(clean.spec, {
+                replicas: 2,
+                selector: { matchLabels: { app: "web" } },
+                template: {
+                    metadata: { labels: { app: "web" } },
+                    spec: { containers: [ { name: "web", image: "shop/web:1.2", ports: [ { containerPort: 80 } ] } ] }
+                }
+            });
+        });
+
+        test("...it keeps fields which differ from their defaults", () => {
+            const live = JSON.parse(JSON.stringify(liveDeployment));
+            live.spec.template.spec.restartPolicy = "Never";
+            live.spec.template.spec.containers[0].image = "shop/web";
+            live.spec.strategy = { type: "Recreate" };
+            const clean = cleanManifest.cleanManifest(live);
+            assert.equal(clean.spec.template.spec.restartPolicy, "Never");
+            assert.equal(clean.spec.template.spec.containers[0].imagePullPolicy, "IfNotPresent");
+            assert.deepEqual(clean.spec.strategy, { type: "Recreate" });
+        });
+
+        test("...it removes the cluster IP of a service", () => {
+            const clean = cleanManifest.cleanManifest({
+                apiVersion: "v1",
+                kind: "Service",
+                metadata: { name: "web" },
+                spec: { clusterIP: "10.0.0.12", type: "ClusterIP", sessionAffinity: "None", ports: [ { port: 80, targetPort: 80, protocol: "TCP" } ] }
+            });
+            assert.deepEqual(clean.spec, { ports: [ { port: 80 } ] });
+        });
+
+        test("...it does not change the live object", () => {
+            cleanManifest.cleanManifest(liveDeployment);
+            assert.equal(liveDeployment.metadata.uid, "1234");
+            assert.equal(liveDeployment.spec.template.spec.dnsPolicy, "ClusterFirst");
+        });
+    });
+
+    suite("formatManifest method", () => {
+
+        test("...several objects become separate YAML documents", () => {
+            const text = cleanManifest.formatManifest([ { kind: "A" }, { kind: "B" } ], 'yaml');
+            assert.deepEqual(yaml.safeLoadAll(text), [ { kind: "A" }, { kind: "B" } ]);
+        });
+
+        test("...several objects become a List in JSON", () => {
+            const text = cleanManifest.formatManifest([ { kind: "A" }, { kind: "B" } ], 'json');
+            assert.deepEqual(JSON.parse(text), { apiVersion: "v1", kind: "List", items: [ { kind: "A" }, { kind: "B" } ] });
+        });
+    });
+
+    suite("outputFormat method", () => {
+
+        test("...objects are loaded as YAML by default", () => {
+            assert.equal(cleanManifest.outputFormat(fakes.host()), 'yaml');
+        });
+
+        test("...JSON can be chosen in settings", () => {
+            assert.equal(cleanManifest.outputFormat(fakes.host({ configuration: { 'vs-kubernetes.outputFormat': 'json' } })), 'json');
+        });
+    });
+});
@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import * as path from 'path';
+
+import * as textassert from './textassert';
+import * as fakes from './fakes';
+
+import * as docker from '../src/docker';
+import * as debugProviders from '../src/debugProviders';
+
+const root = path.join('/fake', 'app');
+
+function runtimesFor(existentFiles : string[], dockerfileText? : string) : string[] {
+    const fs = fakes.fs({
+        existentPaths: existentFiles.map((f) => path.join(root, f)),
+        onDirSync: (_) => existentFiles
+    });
+    const dockerfile = dockerfileText ? docker.parseDockerfile(dockerfileText) : undefined;
+    return debugProviders.detectDebugProviders(fs, root, dockerfile).map((p) => p.runtime);
+}
+
+suite("debug provider tests", () => {
+
+    suite("detectDebugProviders method", () => {
+
+        test("...it detects the runtime from the Dockerfile base image", () => {
+            assert.deepEqual(runtimesFor([], "FROM node:8\nCMD node server.js"), ['node']);
+            assert.deepEqual(runtimesFor([], "FROM python:3.6-slim\n"), ['python']);
+            assert.deepEqual(runtimesFor([], "FROM openjdk:8-jre\n"), ['java']);
+            assert.deepEqual(runtimesFor([], "FROM microsoft/dotnet:2.1-runtime\n"), ['dotnet']);
+            assert.deepEqual(runtimesFor([], "FROM golang:1.11\n"), ['go']);
+        });
+
+        test("...it detects the runtime from workspace files", () => {
+            assert.deepEqual(runtimesFor(['package.json']), ['node']);
+            assert.deepEqual(runtimesFor(['requirements.txt']), ['python']);
+            assert.deepEqual(runtimesFor(['pom.xml']), ['java']);
+            assert.deepEqual(runtimesFor(['MyApp.csproj']), ['dotnet']);
+            assert.deepEqual(runtimesFor(['go.mod']), ['go']);
+        });
+
+        test("...it returns nothing if the runtime is not recognised", () => {
+            assert.deepEqual(runtimesFor(['README.md'], "FROM alpine:3.8\n"), []);
+        });
+
+        test("...it recognises Java images by name, not by any mention of Java", () => {
+            assert.deepEqual(runtimesFor([], "FROM eclipse-temurin:11-jre\n"), ['java']);
+            assert.deepEqual(runtimesFor([], "FROM maven:3-jdk-8\n"), ['java']);
+            assert.deepEqual(runtimesFor([], "FROM myorg/javascript-runner:1.0\n"), []);
+            assert.deepEqual(runtimesFor([], "FROM node:8-gradle\n"), ['node']);
+        });
+    });
+
+    suite("detectContainerDebugProviders method", () => {
+
+        test("...it detects the runtime from the container image", () => {
+            const container = debugProviders.runningContainer({ image: 'docker.io/library/python:3.6' });
+            assert.deepEqual(debugProviders.detectContainerDebugProviders(container).map((p) => p.runtime), ['python']);
+        });
+
+        test("...it detects the runtime from the container command", () => {
+            const container = debugProviders.runningContainer({ image: 'myrepo/myapp:1.0', command: ['/usr/bin/java'], args: ['-jar', 'app.jar'] });
+            assert.deepEqual(debugProviders.detectContainerDebugProviders(container).map((p) => p.runtime), ['java']);
+        });
+    });
+
+    suite("debugPortFromCommand method", () => {
+
+        test("...it reads the port from the debug agent options", () => {
+            assert.equal(debugProviders.nodeDebugProvider.debugPortFromCommand('node --inspect=0.0.0.0:9230 server.js'), 9230);
+            assert.equal(debugProviders.pythonDebugProvider.debugPortFromCommand('python -m ptvsd --host 0.0.0.0 --port 3000 app.py'), 3000);
+            assert.equal(debugProviders.javaDebugProvider.debugPortFromCommand('java -agentlib:jdwp=transport=dt_socket,server=y,address=*:8000 -jar app.jar'), 8000);
+            assert.equal(debugProviders.goDebugProvider.debugPortFromCommand('dlv --listen=:40000 --headless=true exec ./app'), 40000);
+        });
+
+        test("...it uses the default port if the debug agent is enabled without one", () => {
+            assert.equal(debugProviders.nodeDebugProvider.debugPortFromCommand('node --inspect server.js'), 9229);
+        });
+
+        test("...it reads debug options from the container environment", () => {
+            const container = debugProviders.runningContainer({ image: 'node:8', command: ['npm', 'start'], env: [ { name: 'NODE_OPTIONS', value: '--inspect=0.0.0.0:9229' } ] });
+            assert.equal(debugProviders.nodeDebugProvider.debugPortFromCommand(container.commandLine), 9229);
+        });
+
+        test("...it returns undefined if no debug agent is enabled", () => {
+            assert.equal(debugProviders.nodeDebugProvider.debugPortFromCommand('node server.js'), undefined);
+        });
+    });
+
+    suite("debugCommand method", () => {
+
+        test("...it adds the debug agent to the Dockerfile command", () => {
+            const dockerfile = docker.parseDockerfile('FROM node:8\nCMD ["node", "server.js"]');
+            assert.equal(debugProviders.nodeDebugProvider.debugCommand(dockerfile), 'node --inspect=0.0.0.0:9229 server.js');
+        });
+
+        test("...it suggests a default if the Dockerfile command is for a different executable", () => {
+            const dockerfile = docker.parseDockerfile('FROM python:3\nCMD ./start.sh');
+            textassert.includes('ptvsd', debugProviders.pythonDebugProvider.debugCommand(dockerfile));
+            textassert.includes('app.py', debugProviders.pythonDebugProvider.debugCommand(dockerfile));
+        });
+
+        test("...Delve passes the program's arguments to the program", () => {
+            const dockerfile = docker.parseDockerfile('FROM golang:1.11\nCMD ["/app/server", "--port", "8080"]');
+            assert.equal(debugProviders.goDebugProvider.debugCommand(dockerfile), 'dlv --listen=:2345 --headless=true --api-version=2 exec /app/server -- --port 8080');
+        });
+    });
+
+    suite("debugConfiguration method", () => {
+
+        const target = { podName: 'mypod', namespace: 'myns', localRoot: '/local/app', remoteRoot: '/usr/src/app', kubectlPath: 'kubectl' };
+
+        test("...Node attaches to the forwarded inspector port with the remote root", () => {
+            const config = debugProviders.nodeDebugProvider.debugConfiguration(target);
+            assert.equal(config.type, 'node');
+            assert.equal(config.port, 9229);
+            assert.equal(config.remoteRoot, '/usr/src/app');
+        });
+
+        test("...it attaches to the debug port of a running container if given", () => {
+            const config = debugProviders.nodeDebugProvider.debugConfiguration(Object.assign({ debugPort: 9230 }, target));
+            assert.equal(config.port, 9230);
+        });
+
+        test("...Python maps the local root to the remote root", () => {
+            const config = debugProviders.pythonDebugProvider.debugConfiguration(target);
+            assert.deepEqual(config.pathMappings, [ { localRoot: '/local/app', remoteRoot: '/usr/src/app' } ]);
+        });
+
+        test("....NET runs the debugger in the pod over kubectl exec", () => {
+            const config = debugProviders.dotnetDebugProvider.debugConfiguration(target);
+            assert.equal(config.pipeTransport.pipeProgram, 'kubectl');
+            assert.deepEqual(config.pipeTransport.pipeArgs, ['exec', '-i', 'mypod', '-n', 'myns', '--']);
+            assert.equal(debugProviders.dotnetDebugProvider.debugPorts().length, 0);
+        });
+
+        test("....NET runs kubectl with the kubeconfig files chosen in settings", () => {
+            const config = debugProviders.dotnetDebugProvider.debugConfiguration(Object.assign({ kubeconfig: '/kube/a:/kube/b' }, target));
+            assert.deepEqual(config.pipeTransport.pipeEnv, { KUBECONFIG: '/kube/a:/kube/b' });
+        });
+    });
+
+    suite("parseDockerfile method", () => {
+
+        test("...it reads the base image, working directory, command and ports", () => {
+            const dockerfile = docker.parseDockerfile('FROM node:8\nWORKDIR /usr/src/app\nEXPOSE 8080\nCMD ["npm", "start"]');
+            assert.equal(dockerfile.baseImage, 'node:8');
+            assert.equal(dockerfile.workdir, '/usr/src/app');
+            assert.deepEqual(dockerfile.exposedPorts, [8080]);
+            assert.deepEqual(dockerfile.command, ['npm', 'start']);
+        });
+    });
+});
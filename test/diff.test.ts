@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+
+import * as textassert from './textassert';
+
+import * as diff from '../src/diff';
+import * as manifest from '../src/manifest';
+
+const serverObject = {
+    apiVersion: "apps/v1",
+    kind: "Deployment",
+    metadata: {
+        name: "myapp",
+        namespace: "default",
+        uid: "1234",
+        resourceVersion: "5678",
+        creationTimestamp: "2018-10-01T00:00:00Z",
+        generation: 2,
+        selfLink: "/apis/apps/v1/namespaces/default/deployments/myapp",
+        annotations: {
+            "kubectl.kubernetes.io/last-applied-configuration": "{}",
+            "deployment.kubernetes.io/revision": "2"
+        },
+        labels: { app: "myapp" }
+    },
+    spec: { replicas: 2 },
+    status: { availableReplicas: 2 }
+};
+
+suite("diff tests", () => {
+
+    suite("diffFormat method", () => {
+
+        test("...JSON files are diffed as JSON", () => {
+            assert.equal(diff.diffFormat("/src/app.json", "json"), 'json');
+            assert.equal(diff.diffFormat(undefined, "json"), 'json');
+        });
+
+        test("...other files are diffed as YAML", () => {
+            assert.equal(diff.diffFormat("/src/app.yaml", "yaml"), 'yaml');
+            assert.equal(diff.diffFormat(undefined, "plaintext"), 'yaml');
+        });
+    });
+
+    suite("stripServerFields method", () => {
+
+        test("...it removes status and server-managed metadata", () => {
+            const stripped = diff.stripServerFields(serverObject);
+            assert.equal(stripped.status, undefined);
+            assert.deepEqual(stripped.metadata, { name: "myapp", namespace: "default", labels: { app: "myapp" } });
+        });
+
+        test("...it doesn't change the original object", () => {
+            diff.stripServerFields(serverObject);
+            assert.equal(serverObject.metadata.uid, "1234");
+        });
+
+        test("...it keeps user annotations", () => {
+            const obj = { kind: "Service", metadata: { name: "a", annotations: { "example.com/owner": "me", "kubectl.kubernetes.io/last-applied-configuration": "{}" } } };
+            const stripped = diff.stripServerFields(obj);
+            assert.deepEqual(stripped.metadata.annotations, { "example.com/owner": "me" });
+        });
+    });
+
+    suite("normalise method", () => {
+
+        test("...server and local objects normalise to the same text if only server fields differ", () => {
+            const local = manifest.parseManifest("kind: Deployment\napiVersion: apps/v1\nspec:\n  replicas: 2\nmetadata:\n  labels:\n    app: myapp\n  namespace: default\n  name: myapp\n")[0].object;
+            assert.equal(diff.normalise(local, 'yaml'), diff.normalise(serverObject, 'yaml'));
+            assert.equal(diff.normalise(local, 'json'), diff.normalise(serverObject, 'json'));
+        });
+
+        test("...it produces the requested format", () => {
+            textassert.startsWith('{', diff.normalise(serverObject, 'json'));
+            textassert.startsWith('apiVersion: apps/v1', diff.normalise(serverObject, 'yaml'));
+        });
+    });
+});
@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import * as sysfs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
@@ -8,21 +9,57 @@ import * as fakes from './fakes';
 
 import { Host } from '../src/host';
 import { Shell, ShellResult } from '../src/shell';
+import { sleep } from '../src/sleep';
 import * as kubeExplorer from '../src/explorer';
+import * as kubeconfig from '../src/kubeconfig';
 import * as kuberesources from '../src/kuberesources';
 
 interface FakeContext {
     host? : any;
     kubectl? : any;
+    readKubeconfig? : () => Promise<kubeconfig.KubeConfig>;
 }
 
 function explorerCreateWithFakes(ctx : FakeContext) {
     return kubeExplorer.create(
         ctx.kubectl || fakes.kubectl(),
-        ctx.host || fakes.host()
+        ctx.host || fakes.host(),
+        ctx.readKubeconfig
     );
 }
 
+interface FakePod {
+    name : string;
+    waiting? : string;
+}
+
+function podList(...pods : (string | FakePod)[]) : ShellResult {
+    const items = pods.map((p) => {
+        const pod : FakePod = (typeof p === 'string') ? { name: p } : p;
+        const state = pod.waiting ? { waiting: { reason: pod.waiting } } : { running: { } };
+        return {
+            apiVersion: "v1",
+            kind: "Pod",
+            metadata: { name: pod.name },
+            spec: { containers: [ { name: "c" } ] },
+            status: {
+                phase: "Running",
+                containerStatuses: [ { name: "c", ready: !pod.waiting, restartCount: 0, state: state } ]
+            }
+        };
+    });
+    return { code: 0, stdout: JSON.stringify({ kind: "List", items: items }), stderr: "" };
+}
+
+const apiResources = [
+    "NAME           SHORTNAMES   APIGROUP      NAMESPACED   KIND",
+    "nodes          no                         false        Node",
+    "pods           po                         true         Pod",
+    "deployments    deploy       apps          true         Deployment",
+    "widgets        wd           example.com   true         Widget",
+    ""
+].join('\n');
+
 suite("Explorer tests", () => {
 
     suite("getChildren method", () => {
@@ -30,28 +67,27 @@ suite("Explorer tests", () => {
         suite("If getting the root nodes", () => {
 
             test("...it returns a set of Kubernetes clusters", async () => {
+                const kubeconfigPath = path.join(__dirname, "../../test/kube-config.json");
                 const explorer = explorerCreateWithFakes({
-                    kubectl: fakes.kubectl({
-                        invokeAsync(cmd: string): ShellResult {
-                            if (cmd === "config view -o json") {
-                                return {
-                                    code: 0,
-                                    stdout: sysfs.readFileSync(path.join(__dirname, "../../test/kube-config.json"), 'utf-8'),
-                                    stderr: ""
-                                };
-                            }
-                            return {
-                                code: 0,
-                                stdout: "",
-                                stderr: ""
-                            };
-                        }
-                    })
+                    readKubeconfig: async () => kubeconfig.parseKubeconfig(sysfs.readFileSync(kubeconfigPath, 'utf-8'), kubeconfigPath)
                 });
                 const roots = await explorer.getChildren(undefined);
                 assert.equal(roots.length, 1);
                 assert.equal(roots[0]['id'], "minikube");
             });
+
+            test("...clusters from several kubeconfig files are labelled with their file", async () => {
+                const dev = kubeconfig.parseKubeconfig("contexts:\n- name: dev\n  context: { cluster: dev-cluster, user: dev }\n", "/kube/dev");
+                const prod = kubeconfig.parseKubeconfig("contexts:\n- name: prod\n  context: { cluster: prod-cluster, user: prod }\n", "/kube/prod");
+                const explorer = explorerCreateWithFakes({
+                    readKubeconfig: async () => kubeconfig.mergeKubeconfigs([dev, prod])
+                });
+                const roots = await explorer.getChildren(undefined);
+                assert.equal(roots.length, 2);
+                const treeItem = await roots[1].getTreeItem();
+                assert.equal(treeItem.label, "prod-cluster");
+                assert.equal(treeItem.description, "/kube/prod");
+            });
         });
 
         suite("If getting child nodes", () => {
@@ -59,25 +95,94 @@ suite("Explorer tests", () => {
             test("...kubectl requests the right objects", async () => {
                 let command : string = undefined;
                 const explorer = explorerCreateWithFakes({
-                    kubectl: fakes.kubectl({ asLines: (c) => { command = c; return ["a"]; } })
+                    kubectl: fakes.kubectl({ invokeAsync: (c) => { command = c; return podList("a"); } })
                 });
                 const parent : any = kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod);
                 const nodes = await explorer.getChildren(parent);
-                assert.equal(command, "get pod");
+                assert.equal(command, "get pod -o json");
+            });
+
+            test("...and the folder is in a namespace, kubectl requests objects from that namespace", async () => {
+                let command : string = undefined;
+                const explorer = explorerCreateWithFakes({
+                    kubectl: fakes.kubectl({ invokeAsync: (c) => { command = c; return podList("a"); } })
+                });
+                const parent : any = kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod, "myns");
+                const nodes = await explorer.getChildren(parent);
+                assert.equal(command, "get pod -n myns -o json");
             });
 
-            test("...and kubectl succeeds, it returns an object per output row", async () => {
+            test("...and the folder is in a namespace, the objects carry that namespace", async () => {
                 const explorer = explorerCreateWithFakes({
-                    kubectl: fakes.kubectl({ asLines: (_) => ["a b c", "d e f"]})
+                    kubectl: fakes.kubectl({ invokeAsync: (_) => podList("a", "d") })
+                });
+                const parent : any = kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod, "myns");
+                const nodes = await explorer.getChildren(parent);
+                assert.equal(nodes[0]['namespace'], 'myns');
+                assert.equal(nodes[1]['namespace'], 'myns');
+            });
+
+            test("...and the parent is a namespace, it returns folders scoped to that namespace", async () => {
+                const explorer = explorerCreateWithFakes({});
+                const parent : any = kubeExplorer.createKubernetesNamespace("myns", { name: "myns", active: false });
+                const nodes = await explorer.getChildren(parent);
+                assert.equal(nodes.length, 5);
+                nodes.forEach((n) => assert.equal(n['namespace'], 'myns'));
+            });
+
+            test("...and the parent is a cluster, it groups the kinds into folders", async () => {
+                const explorer = explorerCreateWithFakes({
+                    readKubeconfig: async () => kubeconfig.parseKubeconfig("current-context: dev\ncontexts:\n- name: dev\n  context: { cluster: dev-cluster, user: dev }\n", "/kube/dev")
+                });
+                const clusters = await explorer.getChildren(undefined);
+                const nodes = await explorer.getChildren(clusters[0]);
+                const labels = await Promise.all(nodes.map(async (n) => (await n.getTreeItem()).label));
+                assert.deepEqual(labels, [ "Namespaces", "Nodes", "Workloads", "Network", "Configuration", "Storage", "API Resources" ]);
+            });
+
+            test("...and the parent is a grouping folder in a namespace, only namespaced kinds are listed", async () => {
+                const explorer = explorerCreateWithFakes({});
+                const folders = await explorer.getChildren(kubeExplorer.createKubernetesNamespace("myns", { name: "myns", active: false }));
+                const storage = await explorer.getChildren(folders[3]);
+                assert.deepEqual(storage.map((f) => f['kind']), [ kuberesources.allKinds.persistentVolumeClaim ]);
+            });
+
+            test("...and the parent is the API resources folder, it returns a folder per API group", async () => {
+                const explorer = explorerCreateWithFakes({
+                    kubectl: fakes.kubectl({ invokeAsync: (c) => ({ code: 0, stdout: apiResources, stderr: "" }) })
+                });
+                const folders = await explorer.getChildren(kubeExplorer.createKubernetesNamespace("myns", { name: "myns", active: false }));
+                const groups = await explorer.getChildren(folders[4]);
+                const labels = await Promise.all(groups.map(async (g) => (await g.getTreeItem()).label));
+                assert.deepEqual(labels, [ "core", "apps", "example.com" ]);
+            });
+
+            test("...and the parent is an API group folder, it returns a folder per kind", async () => {
+                let command : string = undefined;
+                const explorer = explorerCreateWithFakes({
+                    kubectl: fakes.kubectl({ invokeAsync: (c) => { command = c; return c.startsWith("api-resources") ? { code: 0, stdout: apiResources, stderr: "" } : podList(); } })
+                });
+                const folders = await explorer.getChildren(kubeExplorer.createKubernetesNamespace("myns", { name: "myns", active: false }));
+                const groups = await explorer.getChildren(folders[4]);
+                const kinds = await explorer.getChildren(groups[2]);
+                assert.equal(kinds.length, 1);
+                assert.equal((await kinds[0].getTreeItem()).label, "Widgets");
+                await explorer.getChildren(kinds[0]);
+                assert.equal(command, "get widgets.example.com -n myns -o json");
+            });
+
+            test("...and kubectl succeeds, it returns an object per item", async () => {
+                const explorer = explorerCreateWithFakes({
+                    kubectl: fakes.kubectl({ invokeAsync: (_) => podList("a", "d") })
                 });
                 const parent : any = kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod);
                 const nodes = await explorer.getChildren(parent);
                 assert.equal(nodes.length, 2);
             });
 
-            test("...it parses the IDs from the kubectl output rows", async () => {
+            test("...it takes the IDs from the item names", async () => {
                 const explorer = explorerCreateWithFakes({
-                    kubectl: fakes.kubectl({ asLines: (_) => ["a b c", "d e f"]})
+                    kubectl: fakes.kubectl({ invokeAsync: (_) => podList("a", "d") })
                 });
                 const parent : any = kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod);
                 const nodes = await explorer.getChildren(parent);
@@ -85,9 +190,32 @@ suite("Explorer tests", () => {
                 assert.equal(nodes[1].id, 'd');
             });
 
+            test("...and the parent is a listed pod, it returns a node per container", async () => {
+                const explorer = explorerCreateWithFakes({
+                    kubectl: fakes.kubectl({ invokeAsync: (_) => podList("a") })
+                });
+                const parent : any = kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod, "myns");
+                const pods = await explorer.getChildren(parent);
+                const containers = await explorer.getChildren(pods[0]);
+                assert.equal(containers.length, 1);
+                assert.equal(containers[0].id, 'c');
+                assert.equal(containers[0]['podName'], 'a');
+                assert.equal(containers[0]['namespace'], 'myns');
+            });
+
+            test("...and the parent is an unlisted pod, kubectl requests the pod", async () => {
+                let command : string = undefined;
+                const explorer = explorerCreateWithFakes({
+                    kubectl: fakes.kubectl({ invokeAsync: (c) => { command = c; return podList("a"); } })
+                });
+                const parent : any = kubeExplorer.createKubernetesResource(kuberesources.allKinds.pod, "a", undefined, "myns");
+                await explorer.getChildren(parent);
+                assert.equal(command, "get pod/a -n myns -o json");
+            });
+
             test("...and kubectl fails, it returns an error node", async () => {
                 const explorer = explorerCreateWithFakes({
-                    kubectl: fakes.kubectl({ asLines: (_) => { return { code: 1, stdout: "", stderr: "Oh no!"}; } })
+                    kubectl: fakes.kubectl({ invokeAsync: (_) => { return { code: 1, stdout: "", stderr: "Oh no!"}; } })
                 });
                 const parent : any = kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod);
                 const nodes = await explorer.getChildren(parent);
@@ -98,7 +226,7 @@ suite("Explorer tests", () => {
             test("...and kubectl fails, the error is displayed", async () => {
                 let errors : string[] = [];
                 const explorer = explorerCreateWithFakes({
-                    kubectl: fakes.kubectl({ asLines: (_) => { return { code: 1, stdout: "", stderr: "Oh no!"}; } }),
+                    kubectl: fakes.kubectl({ invokeAsync: (_) => { return { code: 1, stdout: "", stderr: "Oh no!"}; } }),
                     host: fakes.host({errors: errors})
                 });
                 const parent : any = kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod);
@@ -128,11 +256,55 @@ suite("Explorer tests", () => {
             });
         });
 
+        suite("If getting a tree item for a listed pod", () => {
+
+            test("...its description shows readiness and status", async () => {
+                const explorer = explorerCreateWithFakes({
+                    kubectl: fakes.kubectl({ invokeAsync: (_) => podList("a") })
+                });
+                const parent : any = kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod);
+                const nodes = await explorer.getChildren(parent);
+                const treeItem = await explorer.getTreeItem(nodes[0]);
+                assert.equal(treeItem.description, '1/1 Running');
+            });
+
+            test("...and a container is crash looping, its status is shown as an error", async () => {
+                const explorer = explorerCreateWithFakes({
+                    kubectl: fakes.kubectl({ invokeAsync: (_) => podList({ name: "a", waiting: "CrashLoopBackOff" }) })
+                });
+                const parent : any = kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod);
+                const nodes = await explorer.getChildren(parent);
+                const treeItem = await explorer.getTreeItem(nodes[0]);
+                assert.equal(treeItem.description, '0/1 CrashLoopBackOff');
+                textassert.includes('error.svg', (<vscode.Uri>treeItem.iconPath).fsPath);
+            });
+        });
+
+        suite("If getting a tree item for a pod", () => {
+
+            test("...it is expandable", async () => {
+                const explorer = explorerCreateWithFakes({});
+                const obj : any = kubeExplorer.createKubernetesResource(kuberesources.allKinds.pod, "my-pod");
+                const treeItem = await explorer.getTreeItem(obj);
+                assert.equal(treeItem.collapsibleState, vscode.TreeItemCollapsibleState.Collapsed);
+            });
+        });
+
+        suite("If getting a tree item for a namespace", () => {
+
+            test("...it is expandable", async () => {
+                const explorer = explorerCreateWithFakes({});
+                const obj : any = kubeExplorer.createKubernetesNamespace("myns", { name: "myns", active: false });
+                const treeItem = await explorer.getTreeItem(obj);
+                assert.equal(treeItem.collapsibleState, vscode.TreeItemCollapsibleState.Collapsed);
+            });
+        });
+
         suite("If getting a tree item for a Kubernetes object", () => {
 
             test("...it is not expandable", async () => {
                 const explorer = explorerCreateWithFakes({});
-                const obj : any = kubeExplorer.createKubernetesResource(kuberesources.allKinds.pod, "my-pod");
+                const obj : any = kubeExplorer.createKubernetesResource(kuberesources.allKinds.deployment, "my-deployment");
                 const treeItem = await explorer.getTreeItem(obj);
                 assert.equal(treeItem.collapsibleState, vscode.TreeItemCollapsibleState.None);
             });
@@ -145,4 +317,52 @@ suite("Explorer tests", () => {
             });
         });
     });
+
+    suite("watch mode", () => {
+
+        function watchingExplorer(spawned : string[][], processes : any[], enabled : boolean) {
+            return explorerCreateWithFakes({
+                host: fakes.host({ configuration: { 'vs-kubernetes.explorer-watch': enabled } }),
+                kubectl: fakes.kubectl({
+                    invokeAsync: (c) => podList("a"),
+                    spawnAsChild: (args) => {
+                        const process : any = new EventEmitter();
+                        process.stdout = new EventEmitter();
+                        process.kill = () => { process.killed = true; };
+                        spawned.push(args);
+                        processes.push(process);
+                        return process;
+                    }
+                })
+            });
+        }
+
+        test("...expanding a folder watches its kind", async () => {
+            const spawned : string[][] = [];
+            const explorer = watchingExplorer(spawned, [], true);
+            await explorer.getChildren(kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod, "myns"));
+            await sleep(1);
+            assert.deepEqual(spawned, [ [ 'get', 'pod', '--namespace', 'myns', '--watch-only', '-o', 'json' ] ]);
+            explorer.dispose();
+        });
+
+        test("...refreshing the tree stops the watches", async () => {
+            const processes : any[] = [];
+            const explorer = watchingExplorer([], processes, true);
+            await explorer.getChildren(kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod));
+            await sleep(1);
+            explorer.refresh();
+            assert.equal(processes[0].killed, true);
+            explorer.dispose();
+        });
+
+        test("...nothing is watched unless watch mode is turned on", async () => {
+            const spawned : string[][] = [];
+            const explorer = watchingExplorer(spawned, [], false);
+            await explorer.getChildren(kubeExplorer.createKubernetesResourceFolder(kuberesources.allKinds.pod));
+            await sleep(1);
+            assert.equal(spawned.length, 0);
+            explorer.dispose();
+        });
+    });
 });
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import { EventEmitter } from 'events';
+
+import * as explorerWatch from '../src/explorerWatch';
+import { sleep } from '../src/sleep';
+
+const FAST_TIMING : explorerWatch.WatchTiming = { debounceMs: 5, initialBackoffMs: 5, maxBackoffMs: 20 };
+
+function fakeProcess() : any {
+    const process : any = new EventEmitter();
+    process.stdout = new EventEmitter();
+    process.killed = false;
+    process.kill = () => { process.killed = true; };
+    return process;
+}
+
+function fakeKubectl(spawned : { args : string[], process : any }[]) : any {
+    return {
+        spawnAsChild: async (args : string[]) => {
+            const process = fakeProcess();
+            spawned.push({ args: args, process: process });
+            return process;
+        }
+    };
+}
+
+suite("explorer watch tests", () => {
+
+    suite("watchArgs method", () => {
+
+        test("...it watches for changes only", () => {
+            assert.deepEqual(explorerWatch.watchArgs('deployment', undefined), [ 'get', 'deployment', '--watch-only', '-o', 'json' ]);
+        });
+
+        test("...it watches the given namespace", () => {
+            assert.deepEqual(explorerWatch.watchArgs('pod', 'shop'), [ 'get', 'pod', '--namespace', 'shop', '--watch-only', '-o', 'json' ]);
+        });
+    });
+
+    suite("splitJsonObjects method", () => {
+
+        test("...it splits consecutive objects", () => {
+            const split = explorerWatch.splitJsonObjects('{\n  "a": 1\n}\n{\n  "b": { "c": 2 }\n}\n');
+            assert.deepEqual(split.objects.map((o) => JSON.parse(o)), [ { a: 1 }, { b: { c: 2 } } ]);
+            assert.equal(split.remainder, '');
+        });
+
+        test("...it keeps an incomplete object as the remainder", () => {
+            const split = explorerWatch.splitJsonObjects('{ "a": 1 }\n{ "b": {');
+            assert.equal(split.objects.length, 1);
+            assert.equal(split.remainder, '{ "b": {');
+        });
+
+        test("...braces inside strings are not counted", () => {
+            const split = explorerWatch.splitJsonObjects('{ "a": "}{\\"}" }');
+            assert.deepEqual(split.objects.map((o) => JSON.parse(o)), [ { a: '}{"}' } ]);
+        });
+    });
+
+    suite("ResourceWatcher class", () => {
+
+        test("...it reports a burst of changes once", async () => {
+            const spawned : { args : string[], process : any }[] = [];
+            const changes : string[] = [];
+            const watcher = new explorerWatch.ResourceWatcher<string>(fakeKubectl(spawned), (node) => changes.push(node), FAST_TIMING);
+            watcher.watch('pods', 'pod', undefined);
+            await sleep(1);
+            spawned[0].process.stdout.emit('data', '{ "kind": "Pod" }\n{ "kind"');
+            spawned[0].process.stdout.emit('data', ': "Pod" }\n');
+            await sleep(30);
+            assert.deepEqual(changes, [ 'pods' ]);
+            watcher.dispose();
+        });
+
+        test("...watching a node twice starts one watch", async () => {
+            const spawned : { args : string[], process : any }[] = [];
+            const watcher = new explorerWatch.ResourceWatcher<string>(fakeKubectl(spawned), () => {}, FAST_TIMING);
+            watcher.watch('pods', 'pod', 'shop');
+            watcher.watch('pods', 'pod', 'shop');
+            await sleep(1);
+            assert.equal(spawned.length, 1);
+            assert.deepEqual(spawned[0].args, [ 'get', 'pod', '--namespace', 'shop', '--watch-only', '-o', 'json' ]);
+            watcher.dispose();
+        });
+
+        test("...unwatching a node stops kubectl and reports no more changes", async () => {
+            const spawned : { args : string[], process : any }[] = [];
+            const changes : string[] = [];
+            const watcher = new explorerWatch.ResourceWatcher<string>(fakeKubectl(spawned), (node) => changes.push(node), FAST_TIMING);
+            watcher.watch('pods', 'pod', undefined);
+            await sleep(1);
+            spawned[0].process.stdout.emit('data', '{ "kind": "Pod" }');
+            watcher.unwatch('pods');
+            await sleep(30);
+            assert.equal(spawned[0].process.killed, true);
+            assert.equal(watcher.isWatching('pods'), false);
+            assert.deepEqual(changes, []);
+        });
+
+        test("...if kubectl exits, the watch is restarted and the node refreshed", async () => {
+            const spawned : { args : string[], process : any }[] = [];
+            const changes : string[] = [];
+            const watcher = new explorerWatch.ResourceWatcher<string>(fakeKubectl(spawned), (node) => changes.push(node), FAST_TIMING);
+            watcher.watch('pods', 'pod', undefined);
+            await sleep(1);
+            spawned[0].process.emit('close', 1);
+            await sleep(40);
+            assert.equal(spawned.length, 2);
+            assert.deepEqual(changes, [ 'pods' ]);
+            watcher.dispose();
+        });
+    });
+});
@@ -34,6 +34,7 @@ export interface FakeShellSettings {
 export interface FakeKubectlSettings {
     asLines? : (cmd: string) => string[] | ShellResult;
     invokeAsync? : (cmd: string) => ShellResult;
+    spawnAsChild? : (args: string[]) => any;
 }
 
 export function host(settings : FakeHostSettings = {}) : any {
@@ -72,6 +73,7 @@ export function shell(settings : FakeShellSettings = {}) : any {
         isUnix: () => (settings.isUnix === undefined ? false : settings.isUnix),
         home: () => settings.home || (settings.isWindows ? 'z:\\home' : '/fake/path/to/home'),
         combinePath: (b: string, r: string) => (settings.isWindows ? `${b}\\${r}` : `${b}/${r}`),
+        execOpts: () => ({ env: {} }),
         execCore: (cmd, opts) => fakeShellExec(settings, cmd),
         exec: (cmd) => fakeShellExec(settings, cmd),
     };
@@ -91,8 +93,10 @@ function fakeShellExec(settings : FakeShellSettings, cmd : string) : Promise<She
 export function kubectl(settings : FakeKubectlSettings = {}) : any {
     const asLines = settings.asLines || ((s : string) => []);
     const invokeAsync = settings.invokeAsync || ((s : string) => ({ code: 0, stderr: "", stdout: ""}));
+    const spawnAsChild = settings.spawnAsChild || ((args : string[]) => undefined);
     return {
         asLines: async (cmd) => asLines(cmd),
         invokeAsync: async (cmd) => invokeAsync(cmd),
+        spawnAsChild: async (args) => spawnAsChild(args),
     };
 }
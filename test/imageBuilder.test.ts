@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import * as fakes from './fakes';
+
+import * as imageBuilder from '../src/imageBuilder';
+
+const NO_OPTIONS : imageBuilder.BuildOptions = { dockerfile: 'Dockerfile', buildArgs: {} };
+
+suite("image builder tests", () => {
+
+    suite("imageBuilder method", () => {
+
+        test("...Docker is used by default", () => {
+            assert.equal(imageBuilder.imageBuilder(fakes.host()).id, 'docker');
+        });
+
+        test("...it uses the builder chosen in settings", () => {
+            const host = fakes.host({ configuration: { 'vs-kubernetes.image-builder': 'podman' } });
+            assert.equal(imageBuilder.imageBuilder(host).id, 'podman');
+        });
+
+        test("...an unknown builder falls back to Docker", () => {
+            const host = fakes.host({ configuration: { 'vs-kubernetes.image-builder': 'kaniko' } });
+            assert.equal(imageBuilder.imageBuilder(host).id, 'docker');
+        });
+    });
+
+    suite("buildOptions method", () => {
+
+        test("...it builds the Dockerfile with no arguments by default", () => {
+            assert.deepEqual(imageBuilder.buildOptions(fakes.host()), NO_OPTIONS);
+        });
+
+        test("...it reads the Dockerfile and build arguments from settings", () => {
+            const host = fakes.host({ configuration: { 'vs-kubernetes.dockerfile': 'build/Dockerfile.dev', 'vs-kubernetes.build-args': { NODE_ENV: 'development' } } });
+            assert.deepEqual(imageBuilder.buildOptions(host), { dockerfile: 'build/Dockerfile.dev', buildArgs: { NODE_ENV: 'development' } });
+        });
+    });
+
+    suite("imageName method", () => {
+
+        test("...by default the tag is the version", () => {
+            assert.equal(imageBuilder.imageName('shop', 'v1.2-3-gabc123', undefined, fakes.host()), 'shop:v1.2-3-gabc123');
+        });
+
+        test("...the image user is added in front", () => {
+            assert.equal(imageBuilder.imageName('shop', 'latest', 'docker.io/contoso', fakes.host()), 'docker.io/contoso/shop:latest');
+        });
+
+        test("...it uses the tag template from settings", () => {
+            const host = fakes.host({ configuration: { 'vs-kubernetes.image-tag': 'apps/${name}:dev-${version}' } });
+            assert.equal(imageBuilder.imageName('shop', 'abc123', undefined, host), 'apps/shop:dev-abc123');
+        });
+    });
+
+    suite("build commands", () => {
+
+        test("...Docker builds the Dockerfile with the build arguments and pushes", () => {
+            const options = { dockerfile: 'build/Dockerfile', buildArgs: { NODE_ENV: 'development', PORT: '80' } };
+            assert.equal(imageBuilder.dockerImageBuilder.buildCommand('shop:1', options), 'docker build -t shop:1 -f "build/Dockerfile" --build-arg "NODE_ENV=development" --build-arg "PORT=80" .');
+            assert.equal(imageBuilder.dockerImageBuilder.publishCommand('shop:1', 'aks'), 'docker push shop:1');
+        });
+
+        test("...Buildah and Podman build and push with their own tools", () => {
+            assert.equal(imageBuilder.buildahImageBuilder.buildCommand('shop:1', NO_OPTIONS), 'buildah bud -t shop:1 -f "Dockerfile" .');
+            assert.equal(imageBuilder.podmanImageBuilder.publishCommand('shop:1', undefined), 'podman push shop:1');
+        });
+
+        test("...kind loads the image into the cluster of the current context", () => {
+            assert.equal(imageBuilder.kindImageBuilder.publishCommand('shop:1', 'kind-dev'), 'kind load docker-image shop:1 --name dev');
+            assert.equal(imageBuilder.kindImageBuilder.publishCommand('shop:1', 'other'), 'kind load docker-image shop:1');
+        });
+
+        test("...minikube loads the image into the profile of the current context", () => {
+            assert.equal(imageBuilder.minikubeImageBuilder.publishCommand('shop:1', 'minikube'), 'minikube image load shop:1 --profile minikube');
+        });
+    });
+
+    suite("runArgs method", () => {
+
+        test("...images pushed to a registry use the default pull policy", () => {
+            assert.equal(imageBuilder.runArgs(imageBuilder.dockerImageBuilder), '');
+        });
+
+        test("...images loaded into a local cluster are not pulled", () => {
+            assert.equal(imageBuilder.runArgs(imageBuilder.kindImageBuilder), ' --image-pull-policy=IfNotPresent');
+        });
+    });
+});
@@ -0,0 +1,142 @@
+import * as assert from 'assert';
+import * as fakes from './fakes';
+
+import * as kubeconfig from '../src/kubeconfig';
+
+const config = `
+apiVersion: v1
+kind: Config
+current-context: dev
+clusters:
+- name: dev-cluster
+  cluster:
+    server: https://dev.example.com
+    certificate-authority-data: Y2EtZGF0YQ==
+- name: test-cluster
+  cluster:
+    server: https://test.example.com
+    certificate-authority: certs/ca.crt
+    insecure-skip-tls-verify: true
+contexts:
+- name: dev
+  context:
+    cluster: dev-cluster
+    user: dev-user
+    namespace: web
+- name: test
+  context:
+    cluster: test-cluster
+    user: test-user
+- name: exec
+  context:
+    cluster: dev-cluster
+    user: exec-user
+users:
+- name: dev-user
+  user:
+    client-certificate-data: Y2VydC1kYXRh
+    client-key-data: a2V5LWRhdGE=
+- name: test-user
+  user:
+    client-certificate: /etc/certs/client.crt
+    client-key: client.key
+    tokenFile: token
+- name: basic-user
+  user:
+    username: admin
+    password: secret
+- name: exec-user
+  user:
+    exec:
+      apiVersion: client.authentication.k8s.io/v1beta1
+      command: aws-iam-authenticator
+      args: [ "token", "-i", "dev" ]
+      env:
+      - name: AWS_PROFILE
+        value: dev
+`;
+
+suite("kubeconfig tests", () => {
+
+    const kc = kubeconfig.parseKubeconfig(config, '/home/me/.kube/config');
+
+    suite("parseKubeconfig method", () => {
+
+        test("...it reads the current context, clusters, contexts and users", () => {
+            assert.equal(kc.currentContext, 'dev');
+            assert.deepEqual(kc.clusters.map((c) => c.name), ['dev-cluster', 'test-cluster']);
+            assert.deepEqual(kc.contexts.map((c) => c.name), ['dev', 'test', 'exec']);
+            assert.deepEqual(kc.users.map((u) => u.name), ['dev-user', 'test-user', 'basic-user', 'exec-user']);
+            assert.equal(kc.clusters[1].server, 'https://test.example.com');
+            assert.equal(kc.contexts[0].namespace, 'web');
+        });
+
+        test("...it records the file each entry came from", () => {
+            assert.equal(kc.contexts[0].source, '/home/me/.kube/config');
+            assert.equal(kc.users[0].source, '/home/me/.kube/config');
+        });
+
+        test("...an empty file has nothing in it", () => {
+            const empty = kubeconfig.parseKubeconfig('', '/empty');
+            assert.equal(empty.currentContext, undefined);
+            assert.deepEqual(empty.contexts, []);
+        });
+    });
+
+    suite("kubeconfigPaths method", () => {
+
+        const shell = fakes.shell({ isWindows: false });
+
+        test("...the files chosen in settings are used", () => {
+            const host = fakes.host({ configuration: { 'vs-kubernetes.kubeconfig': ['~/.kube/dev', '/etc/kube/prod'] } });
+            assert.deepEqual(kubeconfig.kubeconfigPaths(shell, host), ['/fake/path/to/home/.kube/dev', '/etc/kube/prod']);
+        });
+
+        test("...a single file can be chosen", () => {
+            const host = fakes.host({ configuration: { 'vs-kubernetes.kubeconfig': '/etc/kube/prod' } });
+            assert.deepEqual(kubeconfig.kubeconfigPaths(shell, host), ['/etc/kube/prod']);
+        });
+
+        test("...if no files are chosen, KUBECONFIG is used", () => {
+            const kubeconfigEnv = process.env['KUBECONFIG'];
+            process.env['KUBECONFIG'] = '/kube/a:/kube/b';
+            try {
+                assert.deepEqual(kubeconfig.kubeconfigPaths(shell, fakes.host()), ['/kube/a', '/kube/b']);
+            } finally {
+                if (kubeconfigEnv === undefined) {
+                    delete process.env['KUBECONFIG'];
+                } else {
+                    process.env['KUBECONFIG'] = kubeconfigEnv;
+                }
+            }
+        });
+    });
+
+    suite("mergeKubeconfigs method", () => {
+
+        const other = kubeconfig.parseKubeconfig(`
+current-context: prod
+contexts:
+- name: dev
+  context:
+    cluster: other-cluster
+    user: other-user
+- name: prod
+  context:
+    cluster: prod-cluster
+    user: prod-user
+`, '/home/me/.kube/prod');
+
+        test("...the first file to set the current context wins", () => {
+            assert.equal(kubeconfig.mergeKubeconfigs([kc, other]).currentContext, 'dev');
+            assert.equal(kubeconfig.mergeKubeconfigs([other, kc]).currentContext, 'prod');
+        });
+
+        test("...the first file to define a name wins", () => {
+            const merged = kubeconfig.mergeKubeconfigs([kc, other]);
+            assert.deepEqual(merged.contexts.map((c) => c.name), ['dev', 'test', 'exec', 'prod']);
+            assert.equal(merged.contexts[0].cluster, 'dev-cluster');
+            assert.equal(merged.contexts[3].source, '/home/me/.kube/prod');
+        });
+    });
+});
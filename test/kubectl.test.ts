@@ -307,4 +307,30 @@ suite("kubectl tests", () => {
 
     });
 
+    suite("invokeAsync method", () => {
+
+        function kubectlCapturingEnv(configuration : any, envs : any[]) : Kubectl {
+            const shell = fakes.shell({ isWindows: false });
+            shell.execCore = async (cmd, opts) => {
+                envs.push(opts.env);
+                return { code: 0, stdout: '', stderr: '' };
+            };
+            return kubectlCreateWithFakes({ host: fakes.host({ configuration: configuration }), shell: shell });
+        }
+
+        test("...kubectl uses the kubeconfig files chosen in settings", async () => {
+            const envs : any[] = [];
+            const kubectl = kubectlCapturingEnv({ 'vs-kubernetes.kubeconfig': ['/kube/dev', '/kube/prod'] }, envs);
+            await kubectl.invokeAsync('get pods');
+            assert.equal(envs[0].KUBECONFIG, '/kube/dev:/kube/prod');
+        });
+
+        test("...kubectl uses the usual kubeconfig if none is chosen in settings", async () => {
+            const envs : any[] = [];
+            const kubectl = kubectlCapturingEnv({ }, envs);
+            await kubectl.invokeAsync('get pods');
+            assert.equal(envs[0].KUBECONFIG, undefined);
+        });
+    });
+
 });
\ No newline at end of file
@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+
+import * as kubectlUtils from '../src/kubectlUtils';
+import { KubeConfig } from '../src/kubeconfig';
+
+function resourceWithSelector(kind : string, selector : any) : kubectlUtils.KubernetesResource {
+    return { apiVersion: "v1", kind: kind, metadata: { name: "test" }, spec: { selector: selector } };
+}
+
+suite("kubectlUtils tests", () => {
+
+    suite("podSelector method", () => {
+
+        test("...it converts a service label map to a selector", () => {
+            const selector = kubectlUtils.podSelector(resourceWithSelector("Service", { app: "web", tier: "frontend" }));
+            assert.equal(selector, "app=web,tier=frontend");
+        });
+
+        test("...it converts deployment match labels to a selector", () => {
+            const selector = kubectlUtils.podSelector(resourceWithSelector("Deployment", { matchLabels: { app: "web" } }));
+            assert.equal(selector, "app=web");
+        });
+
+        test("...it converts deployment match expressions to a selector", () => {
+            const selector = kubectlUtils.podSelector(resourceWithSelector("Deployment", {
+                matchLabels: { app: "web" },
+                matchExpressions: [
+                    { key: "tier", operator: "In", values: ["frontend", "edge"] },
+                    { key: "canary", operator: "DoesNotExist" }
+                ]
+            }));
+            assert.equal(selector, "app=web,tier in (frontend,edge),!canary");
+        });
+
+        test("...it returns undefined if the object has no selector", () => {
+            const selector = kubectlUtils.podSelector({ apiVersion: "v1", kind: "ConfigMap", metadata: { name: "test" } });
+            assert.equal(selector, undefined);
+        });
+
+        test("...it returns undefined if the selector is empty", () => {
+            const selector = kubectlUtils.podSelector(resourceWithSelector("Service", { }));
+            assert.equal(selector, undefined);
+        });
+    });
+
+    suite("contextNamespace method", () => {
+
+        function kubeconfigWith(currentContext : string | undefined, namespace? : string) : KubeConfig {
+            return {
+                currentContext: currentContext,
+                clusters: [],
+                contexts: [ { name: 'dev', source: '/kube/config', cluster: 'devcluster', user: 'me', namespace: namespace } ],
+                users: []
+            };
+        }
+
+        test("...it returns the namespace of the current context", () => {
+            assert.equal(kubectlUtils.contextNamespace(kubeconfigWith('dev', 'shop')), 'shop');
+        });
+
+        test("...it returns default if the current context has no namespace", () => {
+            assert.equal(kubectlUtils.contextNamespace(kubeconfigWith('dev')), 'default');
+        });
+
+        test("...it returns an empty string if there is no current context", () => {
+            assert.equal(kubectlUtils.contextNamespace(kubeconfigWith(undefined)), '');
+            assert.equal(kubectlUtils.contextNamespace(kubeconfigWith('prod')), '');
+        });
+    });
+
+    suite("isResourceList method", () => {
+
+        test("...getting a kind gives a list", () => {
+            const list = { apiVersion: "v1", kind: "List", metadata: { name: "" }, items: [ resourceWithSelector("Service", { app: "shop" }) ] };
+            assert.equal(kubectlUtils.isResourceList(list), true);
+        });
+
+        test("...getting an object gives the object", () => {
+            assert.equal(kubectlUtils.isResourceList(resourceWithSelector("Service", { app: "shop" })), false);
+        });
+    });
+});
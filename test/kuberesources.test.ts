@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+
+import * as kuberesources from '../src/kuberesources';
+
+const groupColumnOutput = [
+    "NAME                       SHORTNAMES   APIGROUP                  NAMESPACED   KIND",
+    "namespaces                 ns                                     false        Namespace",
+    "pods                       po                                     true         Pod",
+    "deployments                deploy       apps                      true         Deployment",
+    "networkpolicies            netpol       networking.k8s.io         true         NetworkPolicy",
+    "widgets                                 operators.example.com     true         Widget",
+    ""
+].join('\n');
+
+const versionColumnOutput = [
+    "NAME              SHORTNAMES   APIVERSION                 NAMESPACED   KIND",
+    "nodes             no           v1                         false        Node",
+    "networkpolicies   netpol       networking.k8s.io/v1       true         NetworkPolicy",
+    ""
+].join('\n');
+
+// Clusters from 1.14 to 1.21 serve Ingress in both groups.
+const movedKindOutput = [
+    "NAME        SHORTNAMES   APIGROUP            NAMESPACED   KIND",
+    "ingresses   ing          extensions          true         Ingress",
+    "ingresses   ing          networking.k8s.io   true         Ingress",
+    ""
+].join('\n');
+
+const oldGroupOutput = [
+    "NAME        SHORTNAMES   APIGROUP     NAMESPACED   KIND",
+    "ingresses   ing          extensions   true         Ingress",
+    ""
+].join('\n');
+
+suite("kuberesources tests", () => {
+
+    suite("parseApiResources method", () => {
+
+        test("...it lists a kind per resource", () => {
+            const kinds = kuberesources.parseApiResources(groupColumnOutput);
+            assert.deepEqual(kinds.map((k) => k.displayName), [ "Namespace", "Pod", "Deployment", "NetworkPolicy", "Widget" ]);
+        });
+
+        test("...well-known kinds are the same objects as in allKinds", () => {
+            const kinds = kuberesources.parseApiResources(groupColumnOutput);
+            assert.strictEqual(kinds[0], kuberesources.allKinds.namespace);
+            assert.strictEqual(kinds[1], kuberesources.allKinds.pod);
+            assert.strictEqual(kinds[2], kuberesources.allKinds.deployment);
+        });
+
+        test("...other kinds are qualified by their API group", () => {
+            const kinds = kuberesources.parseApiResources(groupColumnOutput);
+            assert.equal(kinds[3].abbreviation, "networkpolicies.networking.k8s.io");
+            assert.equal(kinds[3].group, "networking.k8s.io");
+            assert.equal(kinds[3].pluralDisplayName, "NetworkPolicies");
+            assert.equal(kinds[4].abbreviation, "widgets.operators.example.com");
+        });
+
+        test("...it understands the API version column of newer kubectls", () => {
+            const kinds = kuberesources.parseApiResources(versionColumnOutput);
+            assert.strictEqual(kinds[0], kuberesources.allKinds.node);
+            assert.equal(kinds[1].abbreviation, "networkpolicies.networking.k8s.io");
+            assert.equal(kinds[1].pluralDisplayName, "NetworkPolicies");
+        });
+
+        test("...it records whether kinds are namespaced", () => {
+            const kinds = kuberesources.parseApiResources(versionColumnOutput);
+            assert.equal(kinds[0].namespaced, false);
+            assert.equal(kinds[1].namespaced, true);
+        });
+
+        test("...a well-known kind served in two groups is listed once, in its usual group", () => {
+            const kinds = kuberesources.parseApiResources(movedKindOutput);
+            assert.equal(kinds.length, 1);
+            assert.strictEqual(kinds[0], kuberesources.allKinds.ingress);
+        });
+
+        test("...a well-known kind is listed in the group the cluster serves it in", () => {
+            const kinds = kuberesources.parseApiResources(oldGroupOutput);
+            assert.equal(kinds.length, 1);
+            assert.equal(kinds[0].group, "extensions");
+            assert.equal(kinds[0].abbreviation, "ingress");
+        });
+
+        test("...empty output lists no kinds", () => {
+            assert.deepEqual(kuberesources.parseApiResources(""), []);
+        });
+    });
+
+    suite("findKind method", () => {
+
+        test("...it finds a kind by the name kubectl knows it by", () => {
+            const kinds = kuberesources.parseApiResources(groupColumnOutput);
+            assert.strictEqual(kuberesources.findKind(kinds, "namespace"), kuberesources.allKinds.namespace);
+            assert.equal(kuberesources.findKind(kinds, "widgets.operators.example.com").displayName, "Widget");
+            assert.equal(kuberesources.findKind(kinds, "gadgets"), undefined);
+        });
+    });
+
+    suite("groupKinds method", () => {
+
+        test("...it groups kinds by API group, core first", () => {
+            const groups = kuberesources.groupKinds(kuberesources.parseApiResources(groupColumnOutput));
+            assert.deepEqual(groups.map((g) => g.group), [ "", "apps", "networking.k8s.io", "operators.example.com" ]);
+            assert.deepEqual(groups[0].kinds.map((k) => k.displayName), [ "Namespace", "Pod" ]);
+        });
+    });
+});
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+
+import * as logs from '../src/logs';
+
+suite("logs tests", () => {
+
+    suite("logsArgs method", () => {
+
+        test("...by default, it requests the pod logs", () => {
+            const args = logs.logsArgs("my-pod", undefined, {});
+            assert.deepEqual(args, ["logs", "my-pod"]);
+        });
+
+        test("...it requests the namespace and container", () => {
+            const args = logs.logsArgs("my-pod", "myns", { container: "sidecar" });
+            assert.deepEqual(args, ["logs", "my-pod", "-n", "myns", "-c", "sidecar"]);
+        });
+
+        test("...it passes the follow, since and tail options", () => {
+            const args = logs.logsArgs("my-pod", undefined, { follow: true, since: "5m", tail: 100 });
+            assert.deepEqual(args, ["logs", "my-pod", "-f", "--since=5m", "--tail=100"]);
+        });
+
+        test("...it passes a zero tail", () => {
+            const args = logs.logsArgs("my-pod", undefined, { tail: 0 });
+            assert.deepEqual(args, ["logs", "my-pod", "--tail=0"]);
+        });
+
+        test("...it passes the previous and timestamps flags", () => {
+            const args = logs.logsArgs("my-pod", undefined, { previous: true, timestamps: true });
+            assert.deepEqual(args, ["logs", "my-pod", "--previous", "--timestamps"]);
+        });
+    });
+
+    suite("podsToStream method", () => {
+
+        function pod(name : string, uid : string, phase : string) : any {
+            return { name: name, resource: { metadata: { name: name, uid: uid }, status: { phase: phase } } };
+        }
+
+        test("...on the first pass, it streams every pod which has started", () => {
+            const seen = new Set<string>();
+            const pods = [pod("web-0", "uid-1", "Running"), pod("web-1", "uid-2", "Pending"), pod("web-2", "uid-3", "Succeeded")];
+            assert.deepEqual(logs.podsToStream(pods, seen, true).map((p) => p.name), ["web-0", "web-2"]);
+        });
+
+        test("...a pod whose stream has closed is not streamed again by the next poll", () => {
+            const seen = new Set<string>();
+            logs.podsToStream([pod("web-0", "uid-1", "Running")], seen, true);
+            assert.deepEqual(logs.podsToStream([pod("web-0", "uid-1", "Running")], seen, false), []);
+        });
+
+        test("...a pod recreated with the same name is streamed", () => {
+            const seen = new Set<string>();
+            logs.podsToStream([pod("web-0", "uid-1", "Running")], seen, true);
+            assert.deepEqual(logs.podsToStream([pod("web-0", "uid-2", "Running")], seen, false).map((p) => p.name), ["web-0"]);
+        });
+
+        test("...a pending pod is streamed once it starts", () => {
+            const seen = new Set<string>();
+            logs.podsToStream([pod("web-0", "uid-1", "Pending")], seen, true);
+            assert.deepEqual(logs.podsToStream([pod("web-0", "uid-1", "Running")], seen, false).map((p) => p.name), ["web-0"]);
+        });
+
+        test("...after the first pass, finished pods are skipped", () => {
+            const seen = new Set<string>();
+            const pods = [pod("job-a", "uid-1", "Succeeded"), pod("job-b", "uid-2", "Failed")];
+            assert.deepEqual(logs.podsToStream(pods, seen, false), []);
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+
+import * as manifest from '../src/manifest';
+
+const multiDocument = [
+    "# the service",
+    "kind: Service",
+    "metadata:",
+    "  name: a",
+    "---",
+    "--- # empty",
+    "kind: Deployment",
+    "metadata:",
+    "  name: b",
+    "",
+].join("\n");
+
+suite("manifest tests", () => {
+
+    suite("parseManifest method", () => {
+
+        test("...it returns each object of a multi-document YAML file", () => {
+            const objects = manifest.parseManifest(multiDocument);
+            assert.equal(objects.length, 2);
+            assert.equal(objects[0].resourceId, 'service/a');
+            assert.equal(objects[1].resourceId, 'deployment/b');
+        });
+
+        test("...it records where each object is in the text", () => {
+            const objects = manifest.parseManifest(multiDocument);
+            assert.equal(objects[0].startOffset, 0);
+            assert.equal(multiDocument.substring(objects[1].startOffset).trim().indexOf("kind: Deployment"), 0);
+        });
+
+        test("...it parses JSON", () => {
+            const objects = manifest.parseManifest(JSON.stringify({ kind: "Pod", metadata: { name: "p" } }));
+            assert.equal(objects.length, 1);
+            assert.equal(objects[0].resourceId, 'pod/p');
+        });
+
+        test("...it skips documents which are not named Kubernetes objects", () => {
+            const objects = manifest.parseManifest("foo: bar\n---\nkind: Pod\nmetadata:\n  name: p\n");
+            assert.equal(objects.length, 1);
+            assert.equal(objects[0].resourceId, 'pod/p');
+        });
+
+        test("...it doesn't split on dashes inside a document", () => {
+            const objects = manifest.parseManifest("kind: ConfigMap\nmetadata:\n  name: c\ndata:\n  x: |\n    ---- not a separator\n");
+            assert.equal(objects.length, 1);
+        });
+
+        test("...it throws if a document is invalid", () => {
+            assert.throws(() => manifest.parseManifest("kind: Pod\n---\nkind: [\n"));
+        });
+    });
+
+    suite("objectAt method", () => {
+
+        test("...it finds the object containing the offset", () => {
+            const objects = manifest.parseManifest(multiDocument);
+            assert.equal(manifest.objectAt(objects, multiDocument.indexOf("name: a")).resourceId, 'service/a');
+            assert.equal(manifest.objectAt(objects, multiDocument.indexOf("name: b")).resourceId, 'deployment/b');
+        });
+    });
+
+    suite("locateField method", () => {
+
+        const text = [
+            "kind: Pod",
+            "metadata:",
+            "  name: p",
+            "spec:",
+            "  containers:",
+            "  - name: a",
+            "    image: nginx",
+            "  - name: b",
+            "    ports:",
+            "      - containerPort: 80",
+            "",
+        ].join("\n");
+        const document = { startOffset: 0, endOffset: text.length };
+
+        function locatedText(path : manifest.FieldPath) : string {
+            const range = manifest.locateField(text, document, path);
+            return text.substring(range.startOffset, range.endOffset);
+        }
+
+        test("...it finds a mapping key", () => {
+            assert.equal(locatedText(['metadata', 'name']), 'name');
+            assert.equal(text.indexOf('name: p'), manifest.locateField(text, document, ['metadata', 'name']).startOffset);
+        });
+
+        test("...it finds a field in a sequence item", () => {
+            const range = manifest.locateField(text, document, ['spec', 'containers', 1, 'ports', 0, 'containerPort']);
+            assert.equal(range.startOffset, text.indexOf('containerPort'));
+        });
+
+        test("...it finds the key on the first line of a sequence item", () => {
+            const range = manifest.locateField(text, document, ['spec', 'containers', 1, 'name']);
+            assert.equal(range.startOffset, text.indexOf('name: b'));
+        });
+
+        test("...it finds a sequence item", () => {
+            assert.equal(locatedText(['spec', 'containers', 0]), '- name: a');
+        });
+
+        test("...if the field is missing, it finds the nearest ancestor", () => {
+            const range = manifest.locateField(text, document, ['spec', 'containers', 0, 'ports']);
+            assert.equal(range.startOffset, text.indexOf('- name: a'));
+        });
+
+        test("...it finds a field in a JSON document", () => {
+            const json = JSON.stringify({ kind: "Pod", spec: { containers: [ { name: "a" } ] } }, null, 2);
+            const range = manifest.locateField(json, { startOffset: 0, endOffset: json.length }, ['spec', 'containers', 0, 'name']);
+            assert.equal(json.substring(range.startOffset, range.endOffset), '"name"');
+        });
+    });
+});
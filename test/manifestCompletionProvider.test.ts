@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+
+import * as schema from '../src/schema';
+import { LineSource } from '../src/yamlNavigation';
+import { fieldCompletions, kindCompletions } from '../src/manifestCompletionProvider';
+
+function lines(text : string) : LineSource {
+    const textLines = text.split('\n');
+    return {
+        lineCount: textLines.length,
+        lineAt: (line) => ({ text: textLines[line] })
+    };
+}
+
+suite("manifest completion tests", () => {
+
+    const v1 = schema.bundledSchema();
+
+    suite("fieldCompletions method", () => {
+
+        test("...it offers the fields of the kind at the top level", () => {
+            const doc = lines("apiVersion: v1\nkind: Pod\n");
+            const names = fieldCompletions(v1, doc, 2, 0).map((f) => f.name);
+            assert.ok(names.indexOf('metadata') >= 0);
+            assert.ok(names.indexOf('spec') >= 0);
+        });
+
+        test("...it offers the fields of array items", () => {
+            const doc = lines("apiVersion: v1\nkind: Pod\nspec:\n  containers:\n  - name: app\n    ");
+            const image = fieldCompletions(v1, doc, 5, 4).find((f) => f.name === 'image');
+            assert.ok(image);
+            assert.equal(image!.type, 'string');
+            assert.ok(image!.description);
+        });
+
+        test("...it describes the type of each field", () => {
+            const doc = lines("apiVersion: v1\nkind: Pod\nspec:\n  ");
+            const containers = fieldCompletions(v1, doc, 3, 2).find((f) => f.name === 'containers');
+            assert.equal(containers!.type, 'Container[]');
+        });
+
+        test("...it offers nothing for unknown kinds or fields", () => {
+            assert.deepEqual(fieldCompletions(v1, lines("apiVersion: example.com/v1\nkind: Widget\n"), 2, 0), []);
+            assert.deepEqual(fieldCompletions(v1, lines("apiVersion: v1\nkind: Pod\nbiscuits:\n  "), 3, 2), []);
+        });
+    });
+
+    suite("kindCompletions method", () => {
+
+        test("...it offers the kinds in the schema", () => {
+            const kinds = kindCompletions(v1, lines("kind: "), 0, 'kind');
+            assert.ok(kinds.indexOf('Pod') >= 0);
+            assert.ok(kinds.indexOf('Service') >= 0);
+        });
+
+        test("...it offers the API versions of the document's kind", () => {
+            assert.deepEqual(kindCompletions(v1, lines("apiVersion: \nkind: Pod"), 0, 'apiVersion'), ['v1']);
+        });
+    });
+});
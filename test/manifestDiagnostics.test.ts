@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+
+import * as schema from '../src/schema';
+import { validateObject } from '../src/manifestDiagnostics';
+
+function pod(spec : any) : any {
+    return { apiVersion: "v1", kind: "Pod", metadata: { name: "p" }, spec: spec };
+}
+
+suite("manifest diagnostics tests", () => {
+
+    const v1 = schema.bundledSchema();
+
+    suite("validateObject method", () => {
+
+        test("...a valid object has no problems", () => {
+            const problems = validateObject(v1, pod({ containers: [ { name: "c", image: "nginx", ports: [ { containerPort: 80 } ] } ] }));
+            assert.deepEqual(problems, []);
+        });
+
+        test("...an unknown field is reported as a warning", () => {
+            const problems = validateObject(v1, pod({ containers: [ { name: "c", imag: "nginx" } ] }));
+            assert.equal(problems.length, 1);
+            assert.deepEqual(problems[0].path, ['spec', 'containers', 0, 'imag']);
+            assert.equal(problems[0].severity, 'warning');
+        });
+
+        test("...a value of the wrong type is reported as an error", () => {
+            const problems = validateObject(v1, pod({ containers: [ { name: "c", ports: [ { containerPort: "http" } ] } ] }));
+            assert.equal(problems.length, 1);
+            assert.deepEqual(problems[0].path, ['spec', 'containers', 0, 'ports', 0, 'containerPort']);
+            assert.equal(problems[0].message, 'Expected an integer but found a string');
+            assert.equal(problems[0].severity, 'error');
+        });
+
+        test("...a missing required field is reported on its parent", () => {
+            const problems = validateObject(v1, pod({ containers: [ { image: "nginx" } ] }));
+            assert.equal(problems.length, 1);
+            assert.deepEqual(problems[0].path, ['spec', 'containers', 0]);
+            assert.equal(problems[0].message, 'Missing required field name');
+        });
+
+        test("...a kind in the wrong API version is reported", () => {
+            const problems = validateObject(v1, { apiVersion: "apps/v1", kind: "Service", metadata: { name: "s" } });
+            assert.equal(problems.length, 1);
+            assert.deepEqual(problems[0].path, ['apiVersion']);
+        });
+
+        test("...an unknown kind in a known API version is reported", () => {
+            const problems = validateObject(v1, { apiVersion: "v1", kind: "Pdo", metadata: { name: "p" } });
+            assert.equal(problems.length, 1);
+            assert.deepEqual(problems[0].path, ['kind']);
+        });
+
+        test("...kinds which are not in the schema are not checked", () => {
+            const problems = validateObject(v1, { apiVersion: "example.com/v1", kind: "Widget", spec: { anything: true } });
+            assert.deepEqual(problems, []);
+        });
+
+        test("...documents which are not Kubernetes objects are not checked", () => {
+            assert.deepEqual(validateObject(v1, { version: "3", services: { } }), []);
+            assert.deepEqual(validateObject(v1, { kind: "NotKubernetes" }), []);
+        });
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+
+import * as portforward from '../src/portForward';
+
+suite("port forward tests", () => {
+
+    suite("parsePortMappings method", () => {
+
+        test("...a single port is forwarded to the same local port", () => {
+            const ports = portforward.parsePortMappings("8080");
+            assert.deepEqual(ports, [ { localPort: 8080, targetPort: 8080 } ]);
+        });
+
+        test("...a local port can be mapped to a different target port", () => {
+            const ports = portforward.parsePortMappings("9000:80");
+            assert.deepEqual(ports, [ { localPort: 9000, targetPort: 80 } ]);
+        });
+
+        test("...the local port can be left for kubectl to choose", () => {
+            const ports = portforward.parsePortMappings(":80");
+            assert.deepEqual(ports, [ { localPort: 0, targetPort: 80 } ]);
+        });
+
+        test("...multiple ports can be separated by spaces or commas", () => {
+            const ports = portforward.parsePortMappings("8080, 9000:80 5858");
+            assert.equal(ports.length, 3);
+            assert.equal(ports[2].targetPort, 5858);
+        });
+
+        test("...invalid ports are rejected", () => {
+            assert.equal(portforward.parsePortMappings("http"), undefined);
+            assert.equal(portforward.parsePortMappings("70000"), undefined);
+            assert.equal(portforward.parsePortMappings("1:2:3"), undefined);
+            assert.equal(portforward.parsePortMappings(""), undefined);
+        });
+    });
+
+    suite("declaredPorts method", () => {
+
+        test("...it lists the container ports of a pod", () => {
+            const ports = portforward.declaredPorts({
+                apiVersion: "v1",
+                kind: "Pod",
+                metadata: { name: "p" },
+                spec: { containers: [ { name: "a", ports: [ { containerPort: 80 } ] }, { name: "b", ports: [ { containerPort: 9229 } ] } ] }
+            });
+            assert.deepEqual(ports, [80, 9229]);
+        });
+
+        test("...it lists the container ports of a deployment's pod template", () => {
+            const ports = portforward.declaredPorts({
+                apiVersion: "apps/v1",
+                kind: "Deployment",
+                metadata: { name: "d" },
+                spec: { template: { spec: { containers: [ { name: "a", ports: [ { containerPort: 80 }, { containerPort: 80 } ] } ] } } }
+            });
+            assert.deepEqual(ports, [80]);
+        });
+
+        test("...it lists the ports of a service", () => {
+            const ports = portforward.declaredPorts({
+                apiVersion: "v1",
+                kind: "Service",
+                metadata: { name: "s" },
+                spec: { ports: [ { port: 443, targetPort: 8443 } ] }
+            });
+            assert.deepEqual(ports, [443]);
+        });
+    });
+});
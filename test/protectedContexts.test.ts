@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import * as fakes from './fakes';
+
+import * as protectedContexts from '../src/protectedContexts';
+
+suite("protected contexts tests", () => {
+
+    suite("protectedContextPatterns method", () => {
+
+        test("...it reads the protected contexts from settings", () => {
+            const host = fakes.host({ configuration: { 'vs-kubernetes.protected-contexts': ['prod', 'live-*'] } });
+            assert.deepEqual(protectedContexts.protectedContextPatterns(host), ['prod', 'live-*']);
+        });
+
+        test("...no contexts are protected by default", () => {
+            assert.deepEqual(protectedContexts.protectedContextPatterns(fakes.host()), []);
+        });
+    });
+
+    suite("isProtectedContext method", () => {
+
+        test("...contexts in the list are protected", () => {
+            assert.equal(protectedContexts.isProtectedContext('prod', ['dev', 'prod']), true);
+            assert.equal(protectedContexts.isProtectedContext('production', ['dev', 'prod']), false);
+        });
+
+        test("...contexts matching a wildcard pattern are protected", () => {
+            assert.equal(protectedContexts.isProtectedContext('live-westeurope', ['live-*']), true);
+            assert.equal(protectedContexts.isProtectedContext('aks-prod1', ['*-prod?']), true);
+            assert.equal(protectedContexts.isProtectedContext('aks-prod12', ['*-prod?']), false);
+        });
+
+        test("...other regular expression characters match literally", () => {
+            assert.equal(protectedContexts.isProtectedContext('prod.eu', ['prod.eu']), true);
+            assert.equal(protectedContexts.isProtectedContext('prodxeu', ['prod.eu']), false);
+        });
+
+        test("...no context is not protected", () => {
+            assert.equal(protectedContexts.isProtectedContext(undefined, ['*']), false);
+        });
+    });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+
+import * as resourceFileSystem from '../src/resourceFileSystem';
+
+suite("resource file system tests", () => {
+
+    suite("parseResourceUri method", () => {
+
+        test("...it finds the context, namespace, kind and name", () => {
+            const location = resourceFileSystem.parseResourceUri({ authority: 'minikube', path: '/shop/deployment/web.yaml' });
+            assert.deepEqual(location, { context: 'minikube', namespace: 'shop', kind: 'deployment', name: 'web', format: 'yaml' });
+        });
+
+        test("...objects can be edited as JSON", () => {
+            const location = resourceFileSystem.parseResourceUri({ authority: 'minikube', path: '/shop/deployment/web.json' });
+            assert.equal(location.format, 'json');
+        });
+
+        test("...names can contain dots", () => {
+            const location = resourceFileSystem.parseResourceUri({ authority: 'minikube', path: '/default/configmap/app.settings.yaml' });
+            assert.equal(location.name, 'app.settings');
+        });
+
+        test("...objects which don't belong to a namespace have none", () => {
+            const location = resourceFileSystem.parseResourceUri({ authority: 'minikube', path: '/_/node/minikube.yaml' });
+            assert.deepEqual(location, { context: 'minikube', namespace: undefined, kind: 'node', name: 'minikube', format: 'yaml' });
+        });
+
+        test("...other paths are not objects", () => {
+            assert.equal(resourceFileSystem.parseResourceUri({ authority: 'minikube', path: '/shop/deployment' }), undefined);
+            assert.equal(resourceFileSystem.parseResourceUri({ authority: 'minikube', path: '/shop/deployment/web.txt' }), undefined);
+            assert.equal(resourceFileSystem.parseResourceUri({ authority: '', path: '/shop/deployment/web.yaml' }), undefined);
+        });
+    });
+
+    suite("isConflict method", () => {
+
+        test("...it recognises resourceVersion conflicts", () => {
+            const stderr = 'Error from server (Conflict): error when replacing "/tmp/web-1.yaml": Operation cannot be fulfilled on deployments.extensions "web": the object has been modified; please apply your changes to the latest version and try again';
+            assert.equal(resourceFileSystem.isConflict(stderr), true);
+        });
+
+        test("...other errors are not conflicts", () => {
+            assert.equal(resourceFileSystem.isConflict('Error from server (NotFound): deployments.extensions "web" not found'), false);
+        });
+    });
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+
+import * as rollout from '../src/rollout';
+
+suite("rollout tests", () => {
+
+    suite("parseRolloutHistory method", () => {
+
+        test("...it lists the revisions oldest first", () => {
+            const text = 'deployment.extensions/shop\nREVISION  CHANGE-CAUSE\n1         kubectl apply --filename=shop.yaml\n2         kubectl set image deployment/shop shop=shop:2\n';
+            assert.deepEqual(rollout.parseRolloutHistory(text), [
+                { revision: 1, changeCause: 'kubectl apply --filename=shop.yaml' },
+                { revision: 2, changeCause: 'kubectl set image deployment/shop shop=shop:2' }
+            ]);
+        });
+
+        test("...a revision with no change cause has none", () => {
+            const text = 'daemonset.apps/fluentd\nREVISION  CHANGE-CAUSE\n3         <none>\n';
+            assert.deepEqual(rollout.parseRolloutHistory(text), [ { revision: 3, changeCause: undefined } ]);
+        });
+
+        test("...a workload with no revisions has an empty history", () => {
+            assert.deepEqual(rollout.parseRolloutHistory('statefulset.apps/db\nREVISION  CHANGE-CAUSE\n\n'), []);
+        });
+    });
+
+    suite("workloadContainers method", () => {
+
+        test("...it lists containers and then init containers", () => {
+            const deployment = {
+                kind: 'Deployment',
+                spec: { template: { spec: {
+                    containers: [ { name: 'shop', image: 'shop:1' }, { name: 'proxy', image: 'envoy:1.8' } ],
+                    initContainers: [ { name: 'migrate', image: 'shop-migrate:1' } ]
+                } } }
+            };
+            assert.deepEqual(rollout.workloadContainers(deployment), [
+                { name: 'shop', image: 'shop:1', init: false },
+                { name: 'proxy', image: 'envoy:1.8', init: false },
+                { name: 'migrate', image: 'shop-migrate:1', init: true }
+            ]);
+        });
+
+        test("...a workload with no pod template has no containers", () => {
+            assert.deepEqual(rollout.workloadContainers({ kind: 'DaemonSet', spec: {} }), []);
+        });
+    });
+});
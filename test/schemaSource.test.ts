@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import * as textassert from './textassert';
+import * as fakes from './fakes';
+
+import { ShellResult } from '../src/shell';
+import * as schemaSource from '../src/schemaSource';
+
+const openApi = {
+    swagger: "2.0",
+    definitions: {
+        "io.k8s.api.core.v1.Pod": {
+            description: "Pod is a collection of containers that can run on a host.",
+            properties: { apiVersion: { type: "string" }, kind: { type: "string" }, metadata: { type: "object" } },
+            "x-kubernetes-group-version-kind": [ { group: "", kind: "Pod", version: "v1" } ]
+        }
+    }
+};
+
+const CACHE_DIR = '/fake/path/to/home/.vs-kubernetes/schema-cache';
+
+const KUBECONFIG = '/fake/path/to/home/.kube/config';
+
+function fakeFS(files : { [path : string] : string }) : any {
+    return {
+        existsSync: (path) => files[path] !== undefined,
+        readFile: (path, encoding, callback) => callback(null, files[path]),
+        readFileSync: (path, encoding) => files[path],
+        writeFileSync: (path, data) => { files[path] = data; },
+        mkdirSync: (path) => { files[path] = ''; },
+    };
+}
+
+function withContext(files : { [path : string] : string }, context : string) : { [path : string] : string } {
+    files[KUBECONFIG] = `apiVersion: v1\nkind: Config\ncurrent-context: ${context}\n`;
+    return files;
+}
+
+function fakeKubectl(reachable : boolean) : any {
+    return fakes.kubectl({
+        invokeAsync: (cmd) : ShellResult => {
+            if (!reachable) {
+                return { code: 1, stdout: '', stderr: 'Unable to connect to the server' };
+            }
+            if (cmd === 'version -o json') {
+                return { code: 0, stdout: JSON.stringify({ serverVersion: { gitVersion: 'v1.12.1' } }), stderr: '' };
+            }
+            if (cmd === 'get --raw /openapi/v2') {
+                return { code: 0, stdout: JSON.stringify(openApi), stderr: '' };
+            }
+            return { code: 1, stdout: '', stderr: 'unexpected command' };
+        }
+    });
+}
+
+suite("schema source tests", () => {
+
+    const shell = fakes.shell({ isWindows: false });
+    const kubeconfigEnv = process.env['KUBECONFIG'];
+
+    suiteSetup(() => {
+        delete process.env['KUBECONFIG'];
+    });
+
+    suiteTeardown(() => {
+        if (kubeconfigEnv !== undefined) {
+            process.env['KUBECONFIG'] = kubeconfigEnv;
+        }
+    });
+
+    suite("loadSchema method", () => {
+
+        test("...it uses the cluster's schema if the cluster can be reached", async () => {
+            const loaded = await schemaSource.loadSchema(fakeKubectl(true), fakeFS(withContext({}, 'prod')), shell);
+            assert.equal(loaded.origin, 'cluster');
+            assert.equal(loaded.version, 'v1.12.1');
+            assert.ok(loaded.schema.findKind('v1', 'Pod'));
+        });
+
+        test("...it caches the cluster's schema for the context", async () => {
+            const files = withContext({}, 'prod');
+            await schemaSource.loadSchema(fakeKubectl(true), fakeFS(files), shell);
+            assert.ok(files[`${CACHE_DIR}/openapi-v1.12.1.json`]);
+            assert.deepEqual(JSON.parse(files[`${CACHE_DIR}/context-versions.json`]), { prod: 'v1.12.1' });
+        });
+
+        test("...it uses the cached schema if the cluster can't be reached", async () => {
+            const files = withContext({}, 'prod');
+            await schemaSource.loadSchema(fakeKubectl(true), fakeFS(files), shell);
+            const loaded = await schemaSource.loadSchema(fakeKubectl(false), fakeFS(files), shell);
+            assert.equal(loaded.origin, 'cache');
+            assert.equal(loaded.version, 'v1.12.1');
+            assert.ok(loaded.schema.findKind('v1', 'Pod'));
+        });
+
+        test("...it doesn't use another context's cached schema", async () => {
+            const files = withContext({}, 'prod');
+            await schemaSource.loadSchema(fakeKubectl(true), fakeFS(files), shell);
+            const loaded = await schemaSource.loadSchema(fakeKubectl(false), fakeFS(withContext(files, 'dev')), shell);
+            assert.equal(loaded.origin, 'bundled');
+        });
+
+        test("...it uses the bundled schema if there is nothing else", async () => {
+            const loaded = await schemaSource.loadSchema(fakeKubectl(false), fakeFS(withContext({}, 'prod')), shell);
+            assert.equal(loaded.origin, 'bundled');
+            assert.ok(loaded.schema.findKind('v1', 'Pod'));
+        });
+    });
+
+    suite("describeSchema method", () => {
+
+        test("...it says which version was used and where it came from", async () => {
+            const loaded = await schemaSource.loadSchema(fakeKubectl(true), fakeFS(withContext({}, 'prod')), shell);
+            textassert.includes('v1.12.1', schemaSource.describeSchema(loaded));
+            textassert.includes('from the cluster', schemaSource.describeSchema(loaded));
+        });
+    });
+});
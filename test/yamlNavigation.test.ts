@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+
+import * as yamlNavigation from '../src/yamlNavigation';
+
+function lines(text : string) : yamlNavigation.LineSource {
+    const textLines = text.split('\n');
+    return {
+        lineCount: textLines.length,
+        lineAt: (line) => ({ text: textLines[line] })
+    };
+}
+
+const podYaml = lines(
+`apiVersion: v1
+kind: Pod
+metadata:
+  name: mypod
+spec:
+  containers:
+  - name: app
+    image: nginx
+
+    # the port the app listens on
+    ports:
+    - containerPort: 80
+---
+apiVersion: apps/v1
+kind: Deployment
+`);
+
+suite("YAML navigation tests", () => {
+
+    suite("findParentYaml method", () => {
+
+        test("...top-level fields have no parent", () => {
+            assert.equal(yamlNavigation.findParentYaml(podYaml, 1), -1);
+        });
+
+        test("...it finds the containing key", () => {
+            assert.equal(yamlNavigation.findParentYaml(podYaml, 3), 2);
+        });
+
+        test("...it skips blank and comment lines", () => {
+            assert.equal(yamlNavigation.findParentYaml(podYaml, 10), 5);
+        });
+
+        test("...it uses the given indentation if there is one", () => {
+            assert.equal(yamlNavigation.findParentYaml(podYaml, 8, 2), 4);
+        });
+    });
+
+    suite("yamlKey method", () => {
+
+        test("...it finds keys in mappings and sequence items", () => {
+            assert.equal(yamlNavigation.yamlKey("  name: mypod"), "name");
+            assert.equal(yamlNavigation.yamlKey("  - containerPort: 80"), "containerPort");
+            assert.equal(yamlNavigation.yamlKey("spec:"), "spec");
+            assert.equal(yamlNavigation.yamlKey("  \"app.kubernetes.io/name\": x"), "app.kubernetes.io/name");
+        });
+
+        test("...lines without keys have none", () => {
+            assert.equal(yamlNavigation.yamlKey("  - nginx"), undefined);
+            assert.equal(yamlNavigation.yamlKey("  # a: comment"), undefined);
+        });
+    });
+
+    suite("yamlFieldPath method", () => {
+
+        test("...it lists the containing keys, outermost first", () => {
+            assert.deepEqual(yamlNavigation.yamlFieldPath(podYaml, 11), ['spec', 'containers', 'ports']);
+            assert.deepEqual(yamlNavigation.yamlFieldPath(podYaml, 7), ['spec', 'containers']);
+        });
+
+        test("...top-level fields have an empty path", () => {
+            assert.deepEqual(yamlNavigation.yamlFieldPath(podYaml, 4), []);
+        });
+    });
+
+    suite("topLevelValue method", () => {
+
+        test("...it finds the value in the document containing the line", () => {
+            assert.equal(yamlNavigation.topLevelValue(podYaml, 7, 'kind'), 'Pod');
+            assert.equal(yamlNavigation.topLevelValue(podYaml, 14, 'kind'), 'Deployment');
+            assert.equal(yamlNavigation.topLevelValue(podYaml, 14, 'apiVersion'), 'apps/v1');
+        });
+
+        test("...nested fields of the same name are ignored", () => {
+            assert.equal(yamlNavigation.topLevelValue(podYaml, 3, 'name'), undefined);
+        });
+    });
+});